@@ -5,6 +5,7 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { ThemeProvider } from "./components/theme-provider";
+import { AuthProvider } from "./components/auth-provider";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 
@@ -17,6 +18,7 @@ const queryClient = new QueryClient();
  * This component sets up the core providers and routing for the application:
  * - ThemeProvider: Enables light/dark mode functionality
  * - QueryClientProvider: Manages data fetching and caching
+ * - AuthProvider: Tracks the signed-in account (optional; history stays local without one)
  * - TooltipProvider: Enables tooltips throughout the app
  * - Toaster/Sonner: Provides toast notifications
  * - BrowserRouter: Handles client-side routing
@@ -24,16 +26,18 @@ const queryClient = new QueryClient();
 const App = () => (
   <ThemeProvider defaultTheme="system" storageKey="compound-calculator-theme">
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <Routes>
-            <Route path="/" element={<Index />} />
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
-      </TooltipProvider>
+      <AuthProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Sonner />
+          <BrowserRouter>
+            <Routes>
+              <Route path="/" element={<Index />} />
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </BrowserRouter>
+        </TooltipProvider>
+      </AuthProvider>
     </QueryClientProvider>
   </ThemeProvider>
 );
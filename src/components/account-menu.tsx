@@ -0,0 +1,192 @@
+import { useState } from "react";
+import { LogIn, User } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+
+// Length of the one-time code Supabase sends
+const CODE_LENGTH = 6;
+
+/**
+ * AccountMenu Component
+ *
+ * Sign-in button for the header. Signing in takes an email address, then the
+ * one-time code from the email (the email's magic link works too). Signed-in
+ * users see their email and can sign out.
+ */
+export function AccountMenu() {
+  const { user, isLoading, sendSignInCode, verifySignInCode, signOut } = useAuth();
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [email, setEmail] = useState('');
+  const [code, setCode] = useState('');
+  const [codeSent, setCodeSent] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+
+  // Start over each time the dialog opens
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      setCode('');
+      setCodeSent(false);
+    }
+  };
+
+  const handleSendCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!/^\S+@\S+\.\S+$/.test(email.trim())) {
+      toast({
+        title: "Invalid email",
+        description: "Please enter a valid email address",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      setIsBusy(true);
+      await sendSignInCode(email.trim());
+      setCodeSent(true);
+      toast({
+        title: "Check your email",
+        description: "We sent you a sign-in link and a code."
+      });
+    } catch (error) {
+      console.error('Failed to send sign-in code:', error);
+      toast({
+        title: "Error",
+        description: "Failed to send the sign-in email. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleVerifyCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsBusy(true);
+      await verifySignInCode(email.trim(), code);
+      setIsOpen(false);
+      toast({
+        title: "Signed in",
+        description: "Your calculation history now syncs to your account."
+      });
+    } catch (error) {
+      console.error('Failed to verify sign-in code:', error);
+      toast({
+        title: "Invalid code",
+        description: "The code is wrong or has expired. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+      toast({
+        title: "Signed out",
+        description: "New calculations will be saved on this device only."
+      });
+    } catch (error) {
+      console.error('Failed to sign out:', error);
+      toast({
+        title: "Error",
+        description: "Failed to sign out.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (user) {
+    return (
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="icon">
+            <User className="h-5 w-5" />
+            <span className="sr-only">Account</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel className="font-normal text-xs sm:text-sm text-muted-foreground">
+            {user.email}
+          </DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={handleSignOut}>
+            Sign Out
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    );
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={isLoading} className="text-xs sm:text-sm">
+          <LogIn className="h-4 w-4" />
+          Sign In
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-[90vw] sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-lg sm:text-xl">Sign in</DialogTitle>
+          <DialogDescription className="text-sm sm:text-base">
+            {codeSent
+              ? `Enter the ${CODE_LENGTH}-digit code sent to ${email.trim()}, or open the link in the email.`
+              : 'Sign in to keep your calculation history in your account and use it on other devices. Without an account, history is saved on this device only.'}
+          </DialogDescription>
+        </DialogHeader>
+        {codeSent ? (
+          <form onSubmit={handleVerifyCode} className="space-y-4">
+            <div className="flex justify-center">
+              <InputOTP maxLength={CODE_LENGTH} value={code} onChange={setCode} autoFocus>
+                <InputOTPGroup>
+                  {Array.from({ length: CODE_LENGTH }, (_, index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+            <DialogFooter className="gap-2">
+              <Button type="button" variant="outline" onClick={() => setCodeSent(false)} disabled={isBusy}>
+                Use another email
+              </Button>
+              <Button type="submit" disabled={isBusy || code.length < CODE_LENGTH}>
+                Verify
+              </Button>
+            </DialogFooter>
+          </form>
+        ) : (
+          <form onSubmit={handleSendCode} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="sign-in-email" className="text-sm sm:text-base">Email</Label>
+              <Input
+                id="sign-in-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="you@example.com"
+                autoComplete="email"
+              />
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={isBusy}>
+                Send Code
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
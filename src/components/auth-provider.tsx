@@ -0,0 +1,79 @@
+import { useEffect, useRef, useState } from "react";
+import type { User } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { AuthContext, AuthState } from "@/hooks/use-auth";
+import { claimAnonymousHistory } from "@/utils/repositories/calculationRepository";
+
+type AuthProviderProps = {
+  children: React.ReactNode;
+};
+
+/**
+ * AuthProvider Component
+ *
+ * Tracks the Supabase Auth session and provides email sign-in: Supabase sends
+ * an email with both a magic link and a one-time code, so the user can either
+ * follow the link or type the code. Without an account the calculator keeps
+ * working and history stays on this device; signing in moves that history
+ * into the account before the user is shown as signed in.
+ */
+export function AuthProvider({ children }: AuthProviderProps) {
+  const [user, setUser] = useState<User | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Number of the latest session change, so a slow claim can't undo a later sign-out
+  const latestChange = useRef(0);
+
+  // Restore the saved session, then follow sign-ins and sign-outs (including from a magic link)
+  useEffect(() => {
+    // Switch to a session's user, first moving this device's anonymous history into their account
+    const applySession = async (next: User | null) => {
+      const change = ++latestChange.current;
+      if (next) {
+        try {
+          await claimAnonymousHistory(next.id);
+        } catch (error) {
+          console.error('Failed to move anonymous history into the account:', error);
+        }
+      }
+      if (change === latestChange.current) setUser(next);
+    };
+
+    supabase.auth.getSession()
+      .then(({ data }) => applySession(data.session?.user ?? null))
+      .catch(error => console.error('Failed to restore session:', error))
+      .finally(() => setIsLoading(false));
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      applySession(session?.user ?? null).finally(() => setIsLoading(false));
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const value: AuthState = {
+    user,
+    isLoading,
+    sendSignInCode: async (email: string) => {
+      const { error } = await supabase.auth.signInWithOtp({
+        email,
+        options: { emailRedirectTo: `${window.location.origin}${window.location.pathname}` }
+      });
+      if (error) throw error;
+    },
+    verifySignInCode: async (email: string, code: string) => {
+      const { error } = await supabase.auth.verifyOtp({ email, token: code, type: 'email' });
+      if (error) throw error;
+    },
+    signOut: async () => {
+      const { error } = await supabase.auth.signOut();
+      if (error) throw error;
+    }
+  };
+
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
@@ -0,0 +1,345 @@
+/**
+ * BreakdownTable Component
+ *
+ * Shows a calculation's period-by-period breakdown, either one row per
+ * compounding period or rolled up into months, quarters or years. Each rolled-up
+ * row shows the interest, deposits, withdrawals and tax summed over its periods
+ * and the balance at its end; clicking it drills down to those periods.
+ *
+ * Long schedules (e.g. daily compounding over many years) open rolled up by
+ * year. Whatever the view, the table is virtualized: only the rows in view are
+ * rendered under a sticky header, so even 10,000+ periods scroll smoothly.
+ *
+ * The toolbar can jump to a period number or (with a start date) to the first
+ * period ending on or after a date, and search the periods by date.
+ */
+
+import { FormEvent, useEffect, useMemo, useState } from "react";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { useVirtualRows } from "@/hooks/use-virtual-rows";
+import { CalculationParams, CalculationResult, YearlyBreakdown, formatCurrency, getPeriodsPerYear } from "@/utils/calculatorUtils";
+import { BreakdownGroup, BreakdownGrouping, GROUPING_LABELS, groupBreakdown } from "@/utils/breakdownUtils";
+
+/**
+ * Props interface for the BreakdownTable component
+ * @property params - The calculation parameters
+ * @property result - The calculation result whose breakdown is shown
+ */
+interface BreakdownTableProps {
+  params: CalculationParams;
+  result: CalculationResult;
+}
+
+// A row of the table: the opening balance, a rolled-up group, or a single period
+type DisplayItem =
+  | { kind: 'opening' }
+  | { kind: 'group'; group: BreakdownGroup }
+  | { kind: 'period'; row: YearlyBreakdown; nested: boolean };
+
+// Schedules longer than this open rolled up by year instead of per period
+const MAX_PERIOD_ROWS = 120;
+
+// Fixed height of every body row (h-12), which the virtualization relies on
+const ROW_HEIGHT = 48;
+
+export function BreakdownTable({ params, result }: BreakdownTableProps) {
+  const breakdown = result.yearlyBreakdown;
+  const { toast } = useToast();
+  const [grouping, setGrouping] = useState<BreakdownGrouping>('period');
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [search, setSearch] = useState('');
+  const [jumpPeriod, setJumpPeriod] = useState('');
+  const [jumpDate, setJumpDate] = useState('');
+  const [highlightedPeriod, setHighlightedPeriod] = useState<number | null>(null);
+  const [scrollTarget, setScrollTarget] = useState<number | null>(null);
+
+  // Pick the default view whenever a new result comes in
+  useEffect(() => {
+    setGrouping(breakdown.length > MAX_PERIOD_ROWS ? 'year' : 'period');
+    setExpanded(new Set());
+    setSearch('');
+    setHighlightedPeriod(null);
+  }, [breakdown]);
+
+  const groups = useMemo(
+    () => grouping === 'period' ? [] : groupBreakdown(breakdown, grouping, getPeriodsPerYear(params.frequency, params.dayCountMethod)),
+    [breakdown, grouping, params.frequency, params.dayCountMethod]
+  );
+
+  // Flatten the current view into the rows to show: search matches, or the
+  // opening row followed by every period or by each group and its expanded periods
+  const items = useMemo<DisplayItem[]>(() => {
+    const query = search.trim();
+    if (query) {
+      return breakdown
+        .filter(row => row.date?.includes(query))
+        .map(row => ({ kind: 'period', row, nested: false }));
+    }
+    const rows: DisplayItem[] = [{ kind: 'opening' }];
+    if (grouping === 'period') {
+      breakdown.forEach(row => rows.push({ kind: 'period', row, nested: false }));
+    } else {
+      groups.forEach(group => {
+        rows.push({ kind: 'group', group });
+        if (expanded.has(group.key)) {
+          group.rows.forEach(row => rows.push({ kind: 'period', row, nested: true }));
+        }
+      });
+    }
+    return rows;
+  }, [breakdown, grouping, groups, expanded, search]);
+
+  const { containerRef, onScroll, start, end, paddingTop, paddingBottom, scrollToIndex } = useVirtualRows<HTMLDivElement>(items.length, ROW_HEIGHT);
+
+  // Scroll to a jumped-to period once the rows (and any drill-down) have been rebuilt
+  useEffect(() => {
+    if (scrollTarget === null) return;
+    const index = items.findIndex(item => item.kind === 'period' && item.row.year === scrollTarget);
+    if (index >= 0) scrollToIndex(index);
+    setScrollTarget(null);
+  }, [items, scrollTarget, scrollToIndex]);
+
+  const hasDates = !!params.startDate;
+  const hasContributions = result.totalContributions > 0;
+  const hasWithdrawals = result.totalWithdrawals !== undefined;
+  const hasTax = result.totalTax !== undefined;
+  const hasInflation = result.realFinalAmount !== undefined;
+
+  // Total (gross) interest earned up to the end of a row or group
+  const getTotalInterest = (row: YearlyBreakdown | BreakdownGroup) =>
+    row.amount + (row.totalTaxWithheld ?? 0) + (row.totalWithdrawals ?? 0) - params.principal - row.totalContributions;
+
+  const toggleGroup = (key: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handleGroupingChange = (value: string) => {
+    setGrouping(value as BreakdownGrouping);
+    setExpanded(new Set());
+  };
+
+  // Show a period: clear the search, open the group it's in and scroll to it
+  const goToPeriod = (period: number) => {
+    setSearch('');
+    const group = groups.find(g => period >= g.firstPeriod && period <= g.lastPeriod);
+    if (group && !expanded.has(group.key)) {
+      setExpanded(prev => new Set(prev).add(group.key));
+    }
+    setHighlightedPeriod(period);
+    setScrollTarget(period);
+  };
+
+  const handleJumpToPeriod = (e: FormEvent) => {
+    e.preventDefault();
+    const period = parseInt(jumpPeriod);
+    if (isNaN(period) || period < 1 || period > breakdown.length) {
+      toast({
+        title: "Invalid period",
+        description: `Enter a period between 1 and ${breakdown.length}.`,
+        variant: "destructive"
+      });
+      return;
+    }
+    goToPeriod(period);
+  };
+
+  const handleJumpToDate = (e: FormEvent) => {
+    e.preventDefault();
+    if (!jumpDate) return;
+    // First period ending on or after the date (ISO dates compare as strings)
+    const row = breakdown.find(r => r.date && r.date >= jumpDate);
+    if (!row) {
+      toast({
+        title: "Date out of range",
+        description: `The last period ends on ${breakdown[breakdown.length - 1]?.date}.`,
+        variant: "destructive"
+      });
+      return;
+    }
+    goToPeriod(row.year);
+  };
+
+  // Cells after the first two columns, shared by period and group rows
+  const renderValueCells = (row: YearlyBreakdown | BreakdownGroup) => (
+    <>
+      {hasContributions && <TableCell className="whitespace-nowrap">{formatCurrency(row.contribution)}</TableCell>}
+      {hasWithdrawals && <TableCell className="whitespace-nowrap">{formatCurrency(row.withdrawal)}</TableCell>}
+      <TableCell className="whitespace-nowrap">{formatCurrency(row.amount)}</TableCell>
+      <TableCell className="whitespace-nowrap">{formatCurrency(row.interestEarned)}</TableCell>
+      {hasTax && <TableCell className="whitespace-nowrap">{formatCurrency(row.taxWithheld)}</TableCell>}
+      {hasTax && <TableCell className="whitespace-nowrap">{formatCurrency(row.netInterest)}</TableCell>}
+      <TableCell className="whitespace-nowrap">{formatCurrency(getTotalInterest(row))}</TableCell>
+      {hasInflation && <TableCell className="whitespace-nowrap">{formatCurrency(row.realAmount)}</TableCell>}
+    </>
+  );
+
+  const renderItem = (item: DisplayItem) => {
+    if (item.kind === 'opening') {
+      return (
+        <TableRow key="opening" className="h-12 [&>td]:py-0">
+          <TableCell className="whitespace-nowrap">0</TableCell>
+          {hasDates && <TableCell className="whitespace-nowrap">{params.startDate instanceof Date ? params.startDate.toISOString().split('T')[0] : ''}</TableCell>}
+          {hasContributions && <TableCell className="whitespace-nowrap">{formatCurrency(0)}</TableCell>}
+          {hasWithdrawals && <TableCell className="whitespace-nowrap">{formatCurrency(0)}</TableCell>}
+          <TableCell className="whitespace-nowrap">{formatCurrency(params.principal)}</TableCell>
+          <TableCell className="whitespace-nowrap">{formatCurrency(0)}</TableCell>
+          {hasTax && <TableCell className="whitespace-nowrap">{formatCurrency(0)}</TableCell>}
+          {hasTax && <TableCell className="whitespace-nowrap">{formatCurrency(0)}</TableCell>}
+          <TableCell className="whitespace-nowrap">{formatCurrency(0)}</TableCell>
+          {hasInflation && <TableCell className="whitespace-nowrap">{formatCurrency(params.principal)}</TableCell>}
+        </TableRow>
+      );
+    }
+
+    if (item.kind === 'group') {
+      const { group } = item;
+      const isExpanded = expanded.has(group.key);
+      return (
+        <TableRow key={`group-${group.key}`} className="h-12 [&>td]:py-0 cursor-pointer font-medium" onClick={() => toggleGroup(group.key)}>
+          <TableCell className="whitespace-nowrap">
+            <span className="flex items-center gap-1">
+              {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+              {group.label}
+              <span className="text-xs text-muted-foreground font-normal">
+                ({group.firstPeriod === group.lastPeriod ? `period ${group.firstPeriod}` : `periods ${group.firstPeriod}–${group.lastPeriod}`})
+              </span>
+            </span>
+          </TableCell>
+          {hasDates && <TableCell className="whitespace-nowrap">{group.endDate}</TableCell>}
+          {renderValueCells(group)}
+        </TableRow>
+      );
+    }
+
+    const { row, nested } = item;
+    const isHighlighted = row.year === highlightedPeriod;
+    return (
+      <TableRow
+        key={row.year}
+        className={`h-12 [&>td]:py-0 ${isHighlighted ? 'bg-primary/10' : nested ? 'bg-muted/40' : ''}`}
+      >
+        <TableCell className={`whitespace-nowrap ${nested ? 'pl-10' : ''}`}>{row.year}{row.isStub && ' (stub)'}</TableCell>
+        {hasDates && <TableCell className="whitespace-nowrap">{row.date}</TableCell>}
+        {renderValueCells(row)}
+      </TableRow>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Toolbar */}
+      <div className="flex flex-col lg:flex-row lg:items-end gap-3">
+        {/* View Selector */}
+        <div className="space-y-2">
+          <Label htmlFor="breakdownGrouping" className="text-sm sm:text-base">View</Label>
+          <Select value={grouping} onValueChange={handleGroupingChange}>
+            <SelectTrigger id="breakdownGrouping" className="h-10 w-full lg:w-[150px] text-sm sm:text-base">
+              <SelectValue placeholder="Select view" />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(GROUPING_LABELS) as BreakdownGrouping[]).map(value => (
+                <SelectItem key={value} value={value}>{GROUPING_LABELS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Jump to Period */}
+        <form onSubmit={handleJumpToPeriod} className="space-y-2">
+          <Label htmlFor="jumpPeriod" className="text-sm sm:text-base">Go to Period</Label>
+          <div className="flex gap-2">
+            <Input
+              id="jumpPeriod"
+              type="number"
+              min="1"
+              max={breakdown.length}
+              placeholder={`1–${breakdown.length}`}
+              value={jumpPeriod}
+              onChange={(e) => setJumpPeriod(e.target.value)}
+              className="finance-input h-10 w-full lg:w-[120px] text-sm sm:text-base"
+            />
+            <Button type="submit" variant="outline" className="h-10">Go</Button>
+          </div>
+        </form>
+
+        {hasDates && (
+          <>
+            {/* Jump to Date */}
+            <form onSubmit={handleJumpToDate} className="space-y-2">
+              <Label htmlFor="jumpDate" className="text-sm sm:text-base">Go to Date</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="jumpDate"
+                  type="date"
+                  value={jumpDate}
+                  onChange={(e) => setJumpDate(e.target.value)}
+                  className="finance-input h-10 w-full lg:w-[160px] text-sm sm:text-base"
+                />
+                <Button type="submit" variant="outline" className="h-10">Go</Button>
+              </div>
+            </form>
+
+            {/* Search by Date */}
+            <div className="space-y-2">
+              <Label htmlFor="dateSearch" className="text-sm sm:text-base">Search Dates</Label>
+              <Input
+                id="dateSearch"
+                placeholder="e.g. 2030-06"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="finance-input h-10 w-full lg:w-[160px] text-sm sm:text-base"
+              />
+            </div>
+          </>
+        )}
+      </div>
+
+      <p className="text-xs sm:text-sm text-muted-foreground">
+        {search.trim()
+          ? `${items.length} ${items.length === 1 ? 'period matches' : 'periods match'} "${search.trim()}".`
+          : grouping !== 'period'
+            ? 'Click a row to show its periods.'
+            : `${breakdown.length} periods.`}
+      </p>
+
+      {/* Virtualized Table - the container scrolls so the header can stick to its top */}
+      <div ref={containerRef} onScroll={onScroll} className="relative max-h-[480px] overflow-auto rounded-md border">
+        <table className="w-full caption-bottom text-sm">
+          <TableHeader className="sticky top-0 z-10 bg-background shadow-[0_1px_0_hsl(var(--border))]">
+            <TableRow>
+              <TableHead className="whitespace-nowrap">{grouping === 'period' || search.trim() ? 'Payment Number' : 'Period'}</TableHead>
+              {hasDates && <TableHead className="whitespace-nowrap">Date</TableHead>}
+              {hasContributions && <TableHead className="whitespace-nowrap">Contribution</TableHead>}
+              {hasWithdrawals && <TableHead className="whitespace-nowrap">Withdrawal</TableHead>}
+              <TableHead className="whitespace-nowrap">Balance</TableHead>
+              <TableHead className="whitespace-nowrap">Interest Earned</TableHead>
+              {hasTax && <TableHead className="whitespace-nowrap">Tax Withheld</TableHead>}
+              {hasTax && <TableHead className="whitespace-nowrap">Net Interest</TableHead>}
+              <TableHead className="whitespace-nowrap">Total Interest</TableHead>
+              {hasInflation && <TableHead className="whitespace-nowrap">Real Value</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {paddingTop > 0 && <tr style={{ height: paddingTop }} />}
+            {items.slice(start, end).map(renderItem)}
+            {paddingBottom > 0 && <tr style={{ height: paddingBottom }} />}
+          </TableBody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -4,22 +4,34 @@ import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { 
   CalculationParams, 
-  deleteCalculation, 
   formatCurrency, 
-  getCalculationHistory,
-  clearCalculationHistory
+  getParamsFromHistory,
+  getTaxRate,
+  SyncStatus
 } from "@/utils/calculatorUtils";
 import { useToast } from "@/components/ui/use-toast";
+import { getStepByStepCalculation } from "@/components/calculation-steps";
+import { useCalculationRepository } from "@/hooks/use-calculation-repository";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { Badge } from "@/components/ui/badge";
 import type { CalculationHistory as CalculationHistoryType } from "@/utils/calculatorUtils";
 
+// Badge shown for each sync status
+const SYNC_STATUS_BADGES: Record<SyncStatus, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  'local-only': { label: 'Local only', variant: 'outline' },
+  pending: { label: 'Pending sync', variant: 'secondary' },
+  synced: { label: 'Synced', variant: 'outline' },
+  failed: { label: 'Sync failed', variant: 'destructive' }
+};
+
 /**
  * Props interface for the CalculationHistory component
  * @property onSelectHistory - Callback function when a history item is selected
+ * @property onPin - Optional callback to pin a history item for comparison
  */
 interface HistoryProps {
   onSelectHistory: (params: CalculationParams) => void;
+  onPin?: (params: CalculationParams) => void;
 }
 
 /**
@@ -28,25 +40,30 @@ interface HistoryProps {
  * Shows past calculations with:
  * - List of saved calculations
  * - Click to reuse a calculation
+ * - Pin items for scenario comparison
  * - Delete individual items
  * - Clear all history
+ * - Sync status of each item (local only, pending, synced or failed)
  */
-export function CalculationHistory({ onSelectHistory }: HistoryProps) {
+export function CalculationHistory({ onSelectHistory, onPin }: HistoryProps) {
   // Track history and selection
   const [history, setHistory] = useState<CalculationHistoryType[]>([]);
   const [selectedItem, setSelectedItem] = useState<CalculationHistoryType | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const { toast } = useToast();
+  const { getCalculationHistory, deleteCalculation, clearCalculationHistory, subscribeToChanges } = useCalculationRepository();
 
-  // Load history on start
+  // Load history on start and when the account changes, and reload quietly when a sync changes it
   useEffect(() => {
+    setSelectedItem(null);
     loadHistory();
-  }, []);
+    return subscribeToChanges(() => loadHistory(false));
+  }, [subscribeToChanges]);
 
   // Load saved calculations
-  const loadHistory = async () => {
+  const loadHistory = async (showLoading = true) => {
     try {
-      setIsLoading(true);
+      if (showLoading) setIsLoading(true);
       const calculationHistory = await getCalculationHistory();
       setHistory(calculationHistory);
     } catch (error) {
@@ -120,13 +137,7 @@ export function CalculationHistory({ onSelectHistory }: HistoryProps) {
   // Handle item selection
   const handleItemClick = (item: CalculationHistoryType) => {
     setSelectedItem(item);
-    onSelectHistory({
-      principal: item.principal,
-      rate: item.rate,
-      time: item.time,
-      frequency: item.frequency,
-      startDate: item.startDate ? new Date(item.startDate) : null
-    });
+    onSelectHistory(getParamsFromHistory(item));
   };
 
   return (
@@ -181,22 +192,38 @@ export function CalculationHistory({ onSelectHistory }: HistoryProps) {
                     {/* History Item Header */}
                     <div className="flex justify-between items-start mb-2">
                       <div>
-                        <h4 className="font-medium text-sm sm:text-base">{formatCurrency(item.principal)} invested for {item.time} years</h4>
+                        <h4 className="font-medium text-sm sm:text-base">{formatCurrency(item.principal)} invested for {item.time} {item.timeUnit === 'days' ? 'days' : 'years'}</h4>
                         <p className="text-xs sm:text-sm text-muted-foreground">
                           {item.rate}% compounded {item.frequency}
+                          {item.contribution > 0 && ` + ${formatCurrency(item.contribution)} ${item.contributionFrequency}`}
                         </p>
                       </div>
-                      <Button 
-                        variant="ghost" 
-                        size="sm" 
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          handleDelete(item.id);
-                        }}
-                        className="text-xs sm:text-sm"
-                      >
-                        Delete
-                      </Button>
+                      <div className="flex gap-1">
+                        {onPin && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onPin(getParamsFromHistory(item));
+                            }}
+                            className="text-xs sm:text-sm"
+                          >
+                            Pin
+                          </Button>
+                        )}
+                        <Button 
+                          variant="ghost" 
+                          size="sm" 
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleDelete(item.id);
+                          }}
+                          className="text-xs sm:text-sm"
+                        >
+                          Delete
+                        </Button>
+                      </div>
                     </div>
                     {/* History Item Footer */}
                     <div className="flex justify-between items-center">
@@ -206,9 +233,14 @@ export function CalculationHistory({ onSelectHistory }: HistoryProps) {
                           {formatCurrency(item.finalAmount)}
                         </p>
                       </div>
-                      <span className="text-[10px] sm:text-xs text-muted-foreground">
-                        {formatDate(item.createdAt)}
-                      </span>
+                      <div className="flex gap-2 items-center">
+                        <Badge variant={SYNC_STATUS_BADGES[item.syncStatus ?? 'local-only'].variant} className="text-[10px] sm:text-xs">
+                          {SYNC_STATUS_BADGES[item.syncStatus ?? 'local-only'].label}
+                        </Badge>
+                        <span className="text-[10px] sm:text-xs text-muted-foreground">
+                          {formatDate(item.createdAt)}
+                        </span>
+                      </div>
                     </div>
                   </div>
                 ))}
@@ -223,37 +255,38 @@ export function CalculationHistory({ onSelectHistory }: HistoryProps) {
               <div className="space-y-2 text-sm sm:text-base">
                 <p><strong>Principal:</strong> {formatCurrency(selectedItem.principal)}</p>
                 <p><strong>Annual Rate:</strong> {selectedItem.rate}%</p>
-                <p><strong>Time Period:</strong> {selectedItem.time} years</p>
+                {selectedItem.rateSchedule?.length > 0 && (
+                  <p><strong>Rate Changes:</strong> {selectedItem.rateSchedule.map(change => `${change.rate}% from year ${change.fromYear}`).join(', ')}</p>
+                )}
+                <p><strong>Time Period:</strong> {selectedItem.time} {selectedItem.timeUnit === 'days' ? 'days' : 'years'}</p>
+                {selectedItem.startDate && selectedItem.endDate && (
+                  <p><strong>Date Range:</strong> {formatDate(String(selectedItem.startDate))} to {formatDate(String(selectedItem.endDate))}</p>
+                )}
                 <p><strong>Compounding:</strong> {selectedItem.frequency}</p>
+                <p><strong>Day Count:</strong> {selectedItem.dayCountMethod || 'actual/365'}</p>
+                {selectedItem.contribution > 0 && (
+                  <>
+                    <p><strong>Contribution:</strong> {formatCurrency(selectedItem.contribution)} {selectedItem.contributionFrequency} ({selectedItem.contributionTiming === 'beginning' ? 'beginning' : 'end'} of period)</p>
+                    <p><strong>Total Contributions:</strong> {formatCurrency(selectedItem.totalContributions ?? 0)}</p>
+                  </>
+                )}
+                {selectedItem.inflationRate > 0 && (
+                  <p><strong>Inflation Rate:</strong> {selectedItem.inflationRate}%</p>
+                )}
+                {selectedItem.withdrawal > 0 && (
+                  <p><strong>Withdrawals:</strong> {selectedItem.withdrawalType === 'percentage' ? `${selectedItem.withdrawal}% of the balance` : formatCurrency(selectedItem.withdrawal)} {selectedItem.withdrawalFrequency} from period {selectedItem.withdrawalStartPeriod || 1} ({formatCurrency(selectedItem.totalWithdrawals ?? 0)} in total)</p>
+                )}
+                {selectedItem.totalTax > 0 && (
+                  <p><strong>Tax Withheld:</strong> {formatCurrency(selectedItem.totalTax)} ({getTaxRate(selectedItem)}% {selectedItem.taxWithholding === 'per-period' ? 'each period' : 'at maturity'})</p>
+                )}
                 <p><strong>Future Value (FV):</strong> {formatCurrency(selectedItem.finalAmount)}</p>
                 <p><strong>Total Interest:</strong> {formatCurrency(selectedItem.totalInterest)}</p>
-                <p><strong>Formula Used:</strong> CI = P(1 + r/n)<sup>nt</sup> - P</p>
+                <p><strong>Formula Used:</strong> {selectedItem.contribution > 0 || selectedItem.frequency === 'continuously' || selectedItem.rateSchedule?.length > 0 ? selectedItem.formula : <>CI = P(1 + r/n)<sup>nt</sup> - P</>}</p>
                 <div className="mt-2">
                   <p className="font-semibold mb-1">Step-by-Step Calculation:</p>
-                  {(() => {
-                    const P = selectedItem.principal;
-                    const r = selectedItem.rate / 100;
-                    const t = selectedItem.time;
-                    const n = (() => {
-                      switch (selectedItem.frequency) {
-                        case 'annually': return 1;
-                        case 'semi-annually': return 2;
-                        case 'quarterly': return 4;
-                        case 'monthly': return 12;
-                        case 'weekly': return 52;
-                        case 'daily': return 365;
-                        default: return 1;
-                      }
-                    })();
-                    const FV = selectedItem.finalAmount;
-                    const CI = FV - P;
-                    return [
-                      <p key="step1">Step 1: CI = {formatCurrency(P)}(1 + {r.toFixed(4)}/{n})<sup>{n}×{t}</sup> - {formatCurrency(P)}</p>,
-                      <p key="step2">Step 2: CI = {formatCurrency(P)}({(1 + r/n).toFixed(4)})<sup>{n * t}</sup> - {formatCurrency(P)}</p>,
-                      <p key="step3">Step 3: CI = {formatCurrency(FV)} - {formatCurrency(P)}</p>,
-                      <p key="step4">Step 4: CI = {formatCurrency(CI)}</p>
-                    ];
-                  })()}
+                  {getStepByStepCalculation(getParamsFromHistory(selectedItem), undefined).map((step, index) => (
+                    <p key={index}>Step {index + 1}: {step}</p>
+                  ))}
                 </div>
                 <p><strong>Calculated on:</strong> {formatDate(selectedItem.createdAt)}</p>
               </div>
@@ -0,0 +1,474 @@
+/**
+ * Calculation Steps
+ *
+ * Builds the formula and the step-by-step derivation shown in the Formula tab
+ * of ResultsDisplay (and written into the PDF report), with the user's values
+ * substituted in. Each step is JSX so exponents can use <sup> and <sub>;
+ * toPlainText flattens a step to text (x^(y), r_k) for places without HTML.
+ */
+
+import { isValidElement } from "react";
+import { CalculationParams, DayCountMethod, calculateCompoundInterest, formatCurrency, getDaysInYear, getFrequencyValue, getGrowthFactor, getRateSegments, getScheduledGrowthFactor, getTaxRate, getTermInYears } from "@/utils/calculatorUtils";
+
+/**
+ * Returns the appropriate formula string based on what we're solving for
+ * @param solveFor - The value being solved for
+ * @param frequency - The compounding frequency
+ * @returns The formula string to display (as JSX)
+ */
+export function getFormulaForSolveFor(
+  solveFor: string | undefined,
+  frequency: string,
+  hasContributions = false,
+  hasRateSchedule = false
+): React.ReactNode {
+  if (hasRateSchedule && solveFor === undefined) {
+    const growth = frequency === 'continuously'
+      ? <>e<sup>Σ r<sub>k</sub>t<sub>k</sub></sup></>
+      : <>Π(1 + r<sub>k</sub>/n)<sup>n·t<sub>k</sub></sup></>;
+    return (
+      <>
+        CI = <span>P × {growth}{hasContributions && <> + Σ PMT × {growth}</>} - P{hasContributions && ' - PMT × mt'}</span>
+      </>
+    );
+  }
+
+  if (frequency === 'continuously') {
+    return getContinuousFormula(solveFor, hasContributions);
+  }
+
+  switch (solveFor) {
+    // Formula for Principal
+    case 'principal':
+      return (
+        <>
+          P = <span>CI / (1 + r/n)<sup>nt</sup></span>
+        </>
+      );
+    // Formula for Future Value (CI)
+    case 'finalAmount':
+      return (
+        <>
+          CI = <span>P(1 + r/n)<sup>nt</sup></span>
+        </>
+      );
+    // Formula for Rate
+    case 'rate':
+      return (
+        <>
+          r = <span>n((CI/P)<sup>1/nt</sup> - 1)</span>
+        </>
+      );
+    // Formula for Time
+    case 'time':
+      return (
+        <>
+          t = <span>ln(CI/P) / (n × ln(1 + r/n))</span>
+        </>
+      );
+    // Formula for Periodic Contribution
+    case 'contribution':
+      return (
+        <>
+          PMT = <span>(CI - P(1 + r/n)<sup>nt</sup>) / [((1 + i)<sup>mt</sup> - 1) / i]</span>
+        </>
+      );
+    // Default: Compound Interest (CI)
+    default:
+      if (hasContributions) {
+        return (
+          <>
+            CI = <span>P(1 + r/n)<sup>nt</sup> + PMT × [((1 + i)<sup>mt</sup> - 1) / i] - P - PMT × mt</span>
+          </>
+        );
+      }
+      return (
+        <>
+          CI = <span>P(1 + r/n)<sup>nt</sup> - P</span>
+        </>
+      );
+  }
+}
+
+/**
+ * Returns the continuous compounding formula (A = Pe^(rt)) for what we're solving for
+ * @param solveFor - The value being solved for
+ * @param hasContributions - Whether periodic contributions are included
+ * @returns The formula string to display (as JSX)
+ */
+function getContinuousFormula(solveFor: string | undefined, hasContributions: boolean): React.ReactNode {
+  switch (solveFor) {
+    case 'principal':
+      return <>P = <span>CI / e<sup>rt</sup></span></>;
+    case 'finalAmount':
+      return <>CI = <span>Pe<sup>rt</sup></span></>;
+    case 'rate':
+      return <>r = <span>ln(CI/P) / t</span></>;
+    case 'time':
+      return <>t = <span>ln(CI/P) / r</span></>;
+    case 'contribution':
+      return <>PMT = <span>(CI - Pe<sup>rt</sup>) / [((1 + i)<sup>mt</sup> - 1) / i]</span></>;
+    default:
+      if (hasContributions) {
+        return <>CI = <span>Pe<sup>rt</sup> + PMT × [((1 + i)<sup>mt</sup> - 1) / i] - P - PMT × mt</span></>;
+      }
+      return <>CI = <span>Pe<sup>rt</sup> - P</span></>;
+  }
+}
+
+/**
+ * Generates step-by-step calculation explanation
+ * @param params - The calculation parameters
+ * @param solveFor - The value being solved for
+ * @returns Array of calculation steps with formatted values
+ */
+export function getStepByStepCalculation(params: CalculationParams, solveFor: string | undefined): React.ReactNode[] {
+  if (solveFor === undefined && (params.withdrawal > 0 || getTaxRate(params) > 0)) {
+    return getSimulatedSteps(params);
+  }
+
+  if (solveFor === undefined && params.rateSchedule?.length > 0) {
+    return getRateScheduleSteps(params);
+  }
+
+  if (solveFor === 'contribution') {
+    return getContributionSolveSteps(params);
+  }
+
+  if (params.frequency === 'continuously' && !(solveFor === undefined && params.contribution > 0)) {
+    return getContinuousSteps(params, solveFor);
+  }
+
+  const { principal, rate, time, frequency } = params;
+  const rateDecimal = rate / 100;
+  const n = getFrequencyNumber(frequency, params.dayCountMethod);
+  const finalAmount = params.targetAmount || calculateCompoundInterest(params).finalAmount;
+  const nValue = Number(n);
+
+  // Generate appropriate steps based on what we're solving for
+  switch (solveFor) {
+    case 'principal':
+      return [
+        <><b>P = CI / (1 + r/n)<sup>nt</sup></b></>,
+        <>
+          P = {formatCurrency(finalAmount)} / (1 + {rateDecimal.toFixed(4)}/{nValue})<sup>{nValue}×{time}</sup>
+        </>,
+        <>
+          P = {formatCurrency(finalAmount)} / ({(1 + rateDecimal/nValue).toFixed(4)})<sup>{nValue * time}</sup>
+        </>,
+        <>
+          P = {formatCurrency(finalAmount)} / {Math.pow(1 + rateDecimal/nValue, nValue * time).toFixed(4)}
+        </>,
+        <>
+          P = {formatCurrency(principal)}
+        </>
+      ];
+    case 'finalAmount':
+      return [
+        <><b>CI = P(1 + r/n)<sup>nt</sup></b></>,
+        <>
+          CI = {formatCurrency(principal)}(1 + {rateDecimal.toFixed(4)}/{nValue})<sup>{nValue}×{time}</sup>
+        </>,
+        <>
+          CI = {formatCurrency(principal)}({(1 + rateDecimal/nValue).toFixed(4)})<sup>{nValue * time}</sup>
+        </>,
+        <>
+          CI = {formatCurrency(principal)} × {Math.pow(1 + rateDecimal/nValue, nValue * time).toFixed(4)}
+        </>,
+        <>
+          CI = {formatCurrency(finalAmount)}
+        </>
+      ];
+    case 'rate':
+      return [
+        <><b>r = n((CI/P)<sup>1/nt</sup> - 1)</b></>,
+        <>
+          r = {nValue}(( {formatCurrency(finalAmount)}/{formatCurrency(principal)} )<sup>1/({nValue}×{time})</sup> - 1)
+        </>,
+        <>
+          r = {nValue}(( {(finalAmount/principal).toFixed(4)} )<sup>1/{nValue * time}</sup> - 1)
+        </>,
+        <>
+          r = {nValue}({Math.pow(finalAmount/principal, 1/(nValue * time)).toFixed(4)} - 1)
+        </>,
+        <>
+          r = {(rateDecimal * 100).toFixed(2)}%
+        </>
+      ];
+    case 'time':
+      return [
+        <><b>t = ln(CI/P) / (n × ln(1 + r/n))</b></>,
+        <>
+          t = ln({formatCurrency(finalAmount)}/{formatCurrency(principal)}) / ({nValue} × ln(1 + {rateDecimal.toFixed(4)}/{nValue}))
+        </>,
+        <>
+          t = {Math.log(finalAmount/principal).toFixed(4)} / ({nValue} × {Math.log(1 + rateDecimal/nValue).toFixed(4)})
+        </>,
+        <>
+          t = {Math.log(finalAmount/principal).toFixed(4)} / {(nValue * Math.log(1 + rateDecimal/nValue)).toFixed(4)}
+        </>,
+        <>
+          t = {time} years
+        </>
+      ];
+    default: {
+      if (params.contribution > 0) {
+        return getContributionSteps(params);
+      }
+      const compoundInterest = finalAmount - principal;
+      return [
+        <><b>CI = P(1 + r/n)<sup>nt</sup> - P</b></>,
+        <>
+          CI = {formatCurrency(principal)}(1 + {rateDecimal.toFixed(4)}/{nValue})<sup>{nValue}×{time}</sup> - {formatCurrency(principal)}
+        </>,
+        <>
+          CI = {formatCurrency(principal)}({(1 + rateDecimal/nValue).toFixed(4)})<sup>{nValue * time}</sup> - {formatCurrency(principal)}
+        </>,
+        <>
+          CI = {formatCurrency(finalAmount)} - {formatCurrency(principal)}
+        </>,
+        <>
+          CI = {formatCurrency(compoundInterest)}
+        </>
+      ];
+    }
+  }
+}
+
+/**
+ * Generates step-by-step explanation for continuous compounding (A = Pe^(rt))
+ * @param params - The calculation parameters
+ * @param solveFor - The value being solved for
+ * @returns Array of calculation steps with formatted values
+ */
+function getContinuousSteps(params: CalculationParams, solveFor: string | undefined): React.ReactNode[] {
+  const { principal, rate, time } = params;
+  const rateDecimal = rate / 100;
+  const finalAmount = params.targetAmount || calculateCompoundInterest(params).finalAmount;
+  const growth = Math.exp(rateDecimal * time);
+
+  switch (solveFor) {
+    case 'principal':
+      return [
+        <><b>P = CI / e<sup>rt</sup></b></>,
+        <>P = {formatCurrency(finalAmount)} / e<sup>{rateDecimal.toFixed(4)}×{time}</sup></>,
+        <>P = {formatCurrency(finalAmount)} / {growth.toFixed(4)}</>,
+        <>P = {formatCurrency(principal)}</>
+      ];
+    case 'finalAmount':
+      return [
+        <><b>CI = Pe<sup>rt</sup></b></>,
+        <>CI = {formatCurrency(principal)} × e<sup>{rateDecimal.toFixed(4)}×{time}</sup></>,
+        <>CI = {formatCurrency(principal)} × {growth.toFixed(4)}</>,
+        <>CI = {formatCurrency(finalAmount)}</>
+      ];
+    case 'rate':
+      return [
+        <><b>r = ln(CI/P) / t</b></>,
+        <>r = ln({formatCurrency(finalAmount)}/{formatCurrency(principal)}) / {time}</>,
+        <>r = {Math.log(finalAmount / principal).toFixed(4)} / {time}</>,
+        <>r = {(rateDecimal * 100).toFixed(2)}%</>
+      ];
+    case 'time':
+      return [
+        <><b>t = ln(CI/P) / r</b></>,
+        <>t = ln({formatCurrency(finalAmount)}/{formatCurrency(principal)}) / {rateDecimal.toFixed(4)}</>,
+        <>t = {Math.log(finalAmount / principal).toFixed(4)} / {rateDecimal.toFixed(4)}</>,
+        <>t = {time} years</>
+      ];
+    default:
+      return [
+        <><b>CI = Pe<sup>rt</sup> - P</b></>,
+        <>CI = {formatCurrency(principal)} × e<sup>{rateDecimal.toFixed(4)}×{time}</sup> - {formatCurrency(principal)}</>,
+        <>CI = {formatCurrency(principal)} × {growth.toFixed(4)} - {formatCurrency(principal)}</>,
+        <>CI = {formatCurrency(finalAmount)} - {formatCurrency(principal)}</>,
+        <>CI = {formatCurrency(finalAmount - principal)}</>
+      ];
+  }
+}
+
+/**
+ * Generates step-by-step explanation for a rate schedule as a piecewise product
+ * @param params - The calculation parameters (with a rate schedule)
+ * @returns Array of calculation steps with formatted values
+ */
+function getRateScheduleSteps(params: CalculationParams): React.ReactNode[] {
+  const { principal, rate, rateSchedule, frequency } = params;
+  const result = calculateCompoundInterest(params);
+  const n = getFrequencyNumber(frequency, params.dayCountMethod);
+  const continuous = frequency === 'continuously';
+  let from = 0;
+  const segments = getRateSegments(rate, rateSchedule, 0, getTermInYears(params)).map(segment => {
+    const range = { ...segment, from, factor: getGrowthFactor(segment.rate, frequency, segment.years, params.dayCountMethod) };
+    from += segment.years;
+    return range;
+  });
+  const product = segments.reduce((total, segment) => total * segment.factor, 1);
+
+  return [
+    <><b>A = P × {continuous ? <>e<sup>Σ r<sub>k</sub>t<sub>k</sub></sup></> : <>Π(1 + r<sub>k</sub>/n)<sup>n·t<sub>k</sub></sup></>}</b></>,
+    ...segments.map(segment => (
+      <>
+        Years {segment.from.toFixed(2)}–{(segment.from + segment.years).toFixed(2)} at {segment.rate}%: {continuous
+          ? <>e<sup>{(segment.rate / 100).toFixed(4)}×{segment.years.toFixed(4)}</sup></>
+          : <>(1 + {(segment.rate / 100).toFixed(4)}/{n})<sup>{n}×{segment.years.toFixed(4)}</sup></>} = {segment.factor.toFixed(6)}
+      </>
+    )),
+    <>
+      A = {formatCurrency(principal)} × {segments.map(segment => segment.factor.toFixed(6)).join(' × ')} = {formatCurrency(principal * product)}
+    </>,
+    ...(result.totalContributions > 0
+      ? [<>FV including {formatCurrency(result.totalContributions)} of contributions = {formatCurrency(result.finalAmount)}</>]
+      : []),
+    <>
+      CI = {formatCurrency(result.finalAmount)} - {formatCurrency(principal)}{result.totalContributions > 0 && ` - ${formatCurrency(result.totalContributions)}`} = {formatCurrency(result.totalInterest)}
+    </>
+  ];
+}
+
+/**
+ * Generates step-by-step explanation for a calculation with withdrawals or tax on interest,
+ * which the closed-form formulas don't cover, from the totals of the period-by-period simulation
+ * @param params - The calculation parameters (with withdrawals or a tax rate)
+ * @returns Array of calculation steps with formatted values
+ */
+function getSimulatedSteps(params: CalculationParams): React.ReactNode[] {
+  const { principal, rate, rateSchedule, frequency } = params;
+  const result = calculateCompoundInterest(params);
+  const growth = getScheduledGrowthFactor(rate, rateSchedule, frequency, 0, getTermInYears(params), params.dayCountMethod);
+  const withdrawals = result.totalWithdrawals ?? 0;
+  const tax = result.totalTax ?? 0;
+
+  return [
+    <><b>FV = P grown to maturity{result.totalContributions > 0 && ' + contributions'}{withdrawals > 0 && ' - withdrawals'}{tax > 0 && ' - tax withheld'}, simulated period by period</b></>,
+    <>
+      P grows to {formatCurrency(principal)} × {growth.toFixed(6)} = {formatCurrency(principal * growth)} on its own
+    </>,
+    ...(result.totalContributions > 0
+      ? [<>Contributions made = {formatCurrency(result.totalContributions)}</>]
+      : []),
+    ...(withdrawals > 0
+      ? [<>Withdrawals made = {formatCurrency(withdrawals)}{result.depletionPeriod !== undefined && ` (the balance runs out in period ${result.depletionPeriod})`}</>]
+      : []),
+    ...(tax > 0
+      ? [<>Tax withheld at {getTaxRate(params)}% {params.taxWithholding === 'per-period' ? 'each period' : 'at maturity'} = {formatCurrency(tax)}</>]
+      : []),
+    <>
+      FV = {formatCurrency(result.finalAmount)}
+    </>,
+    <>
+      CI = {formatCurrency(result.finalAmount)}{tax > 0 && ` + ${formatCurrency(tax)}`}{withdrawals > 0 && ` + ${formatCurrency(withdrawals)}`} - {formatCurrency(principal)}{result.totalContributions > 0 && ` - ${formatCurrency(result.totalContributions)}`} = {formatCurrency(result.totalInterest)}
+    </>,
+    ...(tax > 0
+      ? [<>Net interest = {formatCurrency(result.totalInterest)} - {formatCurrency(tax)} = {formatCurrency(result.netInterest)}</>]
+      : [])
+  ];
+}
+
+/**
+ * Generates step-by-step explanation for a calculation with periodic contributions
+ * @param params - The calculation parameters (with a contribution amount)
+ * @returns Array of calculation steps with formatted values
+ */
+function getContributionSteps(params: CalculationParams): React.ReactNode[] {
+  const { principal, rate, time, frequency, contribution } = params;
+  const rateDecimal = rate / 100;
+  const n = getFrequencyNumber(frequency, params.dayCountMethod);
+  const m = getFrequencyValue(params.contributionFrequency || 'monthly', params.dayCountMethod);
+  const isBeginning = params.contributionTiming === 'beginning';
+  const result = calculateCompoundInterest(params);
+  const continuous = frequency === 'continuously';
+  // Effective rate per contribution period
+  const i = continuous ? Math.exp(rateDecimal / m) - 1 : Math.pow(1 + rateDecimal / n, n / m) - 1;
+  const principalGrowth = principal * (continuous ? Math.exp(rateDecimal * time) : Math.pow(1 + rateDecimal / n, n * time));
+
+  return [
+    <><b>FV = {continuous ? <>Pe<sup>rt</sup></> : <>P(1 + r/n)<sup>nt</sup></>} + PMT × [((1 + i)<sup>mt</sup> - 1) / i]{isBeginning && ' × (1 + i)'}</b></>,
+    continuous ? (
+      <>
+        i = e<sup>{rateDecimal.toFixed(4)}/{m}</sup> - 1 = {i.toFixed(6)}
+      </>
+    ) : (
+      <>
+        i = (1 + {rateDecimal.toFixed(4)}/{n})<sup>{n}/{m}</sup> - 1 = {i.toFixed(6)}
+      </>
+    ),
+    <>
+      FV = {formatCurrency(principalGrowth)} + {formatCurrency(contribution)} × [((1 + {i.toFixed(6)})<sup>{m}×{time}</sup> - 1) / {i.toFixed(6)}]{isBeginning && ` × ${(1 + i).toFixed(6)}`}
+    </>,
+    <>
+      FV = {formatCurrency(result.finalAmount)}
+    </>,
+    <>
+      CI = {formatCurrency(result.finalAmount)} - {formatCurrency(principal)} - {formatCurrency(result.totalContributions)} = {formatCurrency(result.totalInterest)}
+    </>
+  ];
+}
+
+/**
+ * Generates step-by-step explanation for solving the periodic contribution needed to reach a target
+ * @param params - The calculation parameters (with the solved contribution)
+ * @returns Array of calculation steps with formatted values
+ */
+function getContributionSolveSteps(params: CalculationParams): React.ReactNode[] {
+  const { principal, rate, time, frequency, contribution } = params;
+  const rateDecimal = rate / 100;
+  const n = getFrequencyNumber(frequency, params.dayCountMethod);
+  const m = getFrequencyValue(params.contributionFrequency || 'monthly', params.dayCountMethod);
+  const isBeginning = params.contributionTiming === 'beginning';
+  const continuous = frequency === 'continuously';
+  const targetAmount = params.targetAmount || calculateCompoundInterest(params).finalAmount;
+  // Effective rate per contribution period
+  const i = continuous ? Math.exp(rateDecimal / m) - 1 : Math.pow(1 + rateDecimal / n, n / m) - 1;
+  const principalGrowth = principal * (continuous ? Math.exp(rateDecimal * time) : Math.pow(1 + rateDecimal / n, n * time));
+  const annuityFactor = (i === 0 ? m * time : (Math.pow(1 + i, m * time) - 1) / i) * (isBeginning ? 1 + i : 1);
+
+  return [
+    <><b>PMT = (CI - {continuous ? <>Pe<sup>rt</sup></> : <>P(1 + r/n)<sup>nt</sup></>}) / ([((1 + i)<sup>mt</sup> - 1) / i]{isBeginning && ' × (1 + i)'})</b></>,
+    <>
+      i = {continuous ? <>e<sup>{rateDecimal.toFixed(4)}/{m}</sup> - 1</> : <>(1 + {rateDecimal.toFixed(4)}/{n})<sup>{n}/{m}</sup> - 1</>} = {i.toFixed(6)}
+    </>,
+    <>
+      PMT = ({formatCurrency(targetAmount)} - {formatCurrency(principalGrowth)}) / {annuityFactor.toFixed(4)}
+    </>,
+    <>
+      PMT = {formatCurrency(contribution)} {params.contributionFrequency || 'monthly'}
+    </>
+  ];
+}
+
+/**
+ * Converts compounding frequency to number of compounds per year
+ * @param frequency - The compounding frequency
+ * @param dayCountMethod - The day-count convention (sets the length of a daily year)
+ * @returns Number of times interest is compounded per year
+ */
+export function getFrequencyNumber(frequency: string, dayCountMethod?: DayCountMethod): number {
+  switch (frequency) {
+    case 'annually': return 1;
+    case 'semi-annually': return 2;
+    case 'quarterly': return 4;
+    case 'monthly': return 12;
+    case 'weekly': return 52;
+    case 'daily': return getDaysInYear(dayCountMethod);
+    default: return 1;
+  }
+}
+
+/**
+ * Flattens a formula or step to plain text, writing exponents as ^(...) and subscripts as _...
+ * @param node - The JSX to flatten
+ * @returns The text of the node
+ */
+export function toPlainText(node: React.ReactNode): string {
+  if (node === null || node === undefined || typeof node === 'boolean') return '';
+  if (typeof node === 'string' || typeof node === 'number') return String(node);
+  if (Array.isArray(node)) return node.map(toPlainText).join('');
+  if (isValidElement<{ children?: React.ReactNode }>(node)) {
+    const text = toPlainText(node.props.children);
+    if (node.type === 'sup') return `^(${text})`;
+    if (node.type === 'sub') return `_${text}`;
+    return text;
+  }
+  return '';
+}
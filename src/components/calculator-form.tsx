@@ -3,7 +3,16 @@
  * 
  * A form component for compound interest calculations that allows users to:
  * - Input principal amount, interest rate, time period, and compounding frequency
- * - Optionally include a start date for the calculation
+ * - Optionally schedule rate changes (e.g. a step-up time deposit)
+ * - Optionally add a recurring contribution with its own frequency and timing
+ * - Choose the day-count convention used for daily and dated calculations
+ * - Choose where a partial (stub) period falls and how it accrues interest
+ * - Optionally enter an inflation rate to see results in today's pesos
+ * - Choose how tax on interest is withheld (per period, at maturity or exempt)
+ * - Optionally schedule withdrawals (fixed or a percentage of the balance) to
+ *   model a retirement drawdown
+ * - Optionally include a start date for the calculation, and a maturity date
+ *   from which the exact elapsed time is worked out
  * - Save calculations to history
  * - Reset form fields
  * 
@@ -21,15 +30,18 @@ import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
-import { CalculationParams, CompoundingFrequency, calculateCompoundInterest, saveCalculation } from "@/utils/calculatorUtils";
+import { CalculationParams, CompoundingFrequency, ContributionFrequency, ContributionTiming, DayCountMethod, PH_FINAL_WITHHOLDING_TAX_RATE, RateChange, StubMethod, StubPosition, TaxWithholding, WithdrawalType, calculateCompoundInterest, getDaysBetween, validateOptionalParams } from "@/utils/calculatorUtils";
+import { useCalculationRepository } from "@/hooks/use-calculation-repository";
 import { useToast } from "@/components/ui/use-toast";
 
 /**
  * Props interface for the CalculatorForm component
  * @property onCalculate - Callback function that receives calculation parameters when form is submitted
+ * @property sharedParams - Optional parameters from a shared link; they replace the saved form values
  */
 interface CalculatorFormProps {
   onCalculate: (params: CalculationParams) => void;
+  sharedParams?: CalculationParams | null;
 }
 
 /**
@@ -37,26 +49,48 @@ interface CalculatorFormProps {
  * 
  * A form for compound interest calculations with:
  * - Input fields for principal, rate, time, and frequency
- * - Optional start date
+ * - Optional periodic contribution
+ * - Optional start date and maturity date
  * - Form validation
  * - Saves to local storage
+ * - Restores a calculation from a shared link
  * - Reset button
  */
-export function CalculatorForm({ onCalculate }: CalculatorFormProps) {
-  // Initialize form state with saved values from localStorage or defaults
+export function CalculatorForm({ onCalculate, sharedParams }: CalculatorFormProps) {
+  // Initialize form state with a shared link's values, saved values from localStorage or defaults
   const [params, setParams] = useState<CalculationParams>(() => {
     const savedParams = localStorage.getItem('calculatorParams');
-    return savedParams ? JSON.parse(savedParams) : {
+    const emptyParams = {
       principal: "",
       rate: "",
+      rateSchedule: [],
       time: "",
       frequency: 'annually',
-      startDate: null
+      dayCountMethod: 'actual/365',
+      startDate: null,
+      endDate: null,
+      stubPosition: 'back',
+      stubMethod: 'compound',
+      contribution: "",
+      contributionFrequency: 'monthly',
+      contributionTiming: 'end',
+      inflationRate: "",
+      taxRate: PH_FINAL_WITHHOLDING_TAX_RATE,
+      taxWithholding: 'exempt',
+      withdrawal: "",
+      withdrawalType: 'fixed',
+      withdrawalFrequency: 'monthly',
+      withdrawalStartPeriod: 1
     };
+    if (sharedParams) return { ...emptyParams, ...sharedParams };
+    return savedParams ? JSON.parse(savedParams) : emptyParams;
   });
 
   // State to control whether start date input is shown
-  const [includeDate, setIncludeDate] = useState(false);
+  const [includeDate, setIncludeDate] = useState(!!sharedParams?.startDate);
+
+  // State to control whether the time period comes from a maturity date
+  const [useEndDate, setUseEndDate] = useState(!!sharedParams?.endDate);
 
   // Save form values to localStorage whenever they change
   useEffect(() => {
@@ -68,27 +102,46 @@ export function CalculatorForm({ onCalculate }: CalculatorFormProps) {
     if (includeDate) {
       setParams(prev => ({
         ...prev,
-        startDate: new Date()
+        startDate: prev.startDate || new Date()
       }));
     } else {
       setParams(prev => ({
         ...prev,
         startDate: null
       }));
+      setUseEndDate(false);
     }
   }, [includeDate]);
 
+  // Handle maturity date toggle
+  useEffect(() => {
+    if (!useEndDate) {
+      setParams(prev => ({
+        ...prev,
+        endDate: null
+      }));
+    }
+  }, [useEndDate]);
+
+  // Elapsed days between start and maturity when the period comes from a date range
+  const rangeDays = useEndDate && params.startDate && params.endDate
+    ? getDaysBetween(params.startDate, params.endDate)
+    : null;
+
   const { toast } = useToast();
+  const { saveCalculation } = useCalculationRepository();
 
   /**
    * Handles changes to numeric input fields
    * Converts empty strings to empty values, otherwise parses as float
+   * (date fields are parsed as dates and cleared to null)
    */
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
+    const isDateField = name === 'startDate' || name === 'endDate';
     setParams(prev => ({
       ...prev,
-      [name]: name === 'startDate' ? new Date(value) : value === '' ? '' : parseFloat(value)
+      [name]: isDateField ? (value === '' ? null : new Date(value)) : value === '' ? '' : parseFloat(value)
     }));
   };
 
@@ -102,6 +155,123 @@ export function CalculatorForm({ onCalculate }: CalculatorFormProps) {
     }));
   };
 
+  /**
+   * Adds a new rate change row to the rate schedule
+   * Defaults to one year after the last change, keeping its rate
+   */
+  const handleAddRateChange = () => {
+    setParams(prev => {
+      const schedule = prev.rateSchedule || [];
+      const last = schedule[schedule.length - 1];
+      return {
+        ...prev,
+        rateSchedule: [...schedule, { fromYear: (Number(last?.fromYear) || 0) + 1, rate: Number(last?.rate ?? prev.rate) || 0 }]
+      };
+    });
+  };
+
+  /**
+   * Updates a field of one rate change row
+   */
+  const handleRateChangeEdit = (index: number, field: keyof RateChange, value: string) => {
+    setParams(prev => ({
+      ...prev,
+      rateSchedule: (prev.rateSchedule || []).map((change, i) =>
+        i === index ? { ...change, [field]: value === '' ? '' : parseFloat(value) } : change
+      )
+    }));
+  };
+
+  /**
+   * Removes one rate change row from the rate schedule
+   */
+  const handleRemoveRateChange = (index: number) => {
+    setParams(prev => ({
+      ...prev,
+      rateSchedule: (prev.rateSchedule || []).filter((_, i) => i !== index)
+    }));
+  };
+
+  /**
+   * Updates the day-count convention used to convert days into years
+   */
+  const handleDayCountChange = (value: string) => {
+    setParams(prev => ({
+      ...prev,
+      dayCountMethod: value as DayCountMethod
+    }));
+  };
+
+  /**
+   * Updates whether a partial period falls at the start or end of the term
+   */
+  const handleStubPositionChange = (value: string) => {
+    setParams(prev => ({
+      ...prev,
+      stubPosition: value as StubPosition
+    }));
+  };
+
+  /**
+   * Updates whether a partial period earns simple or compound interest
+   */
+  const handleStubMethodChange = (value: string) => {
+    setParams(prev => ({
+      ...prev,
+      stubMethod: value as StubMethod
+    }));
+  };
+
+  /**
+   * Updates how often periodic contributions are made
+   */
+  const handleContributionFrequencyChange = (value: string) => {
+    setParams(prev => ({
+      ...prev,
+      contributionFrequency: value as ContributionFrequency
+    }));
+  };
+
+  /**
+   * Updates whether contributions are made at the beginning or end of each period
+   */
+  const handleContributionTimingChange = (value: string) => {
+    setParams(prev => ({
+      ...prev,
+      contributionTiming: value as ContributionTiming
+    }));
+  };
+
+  /**
+   * Updates when tax on interest is withheld
+   */
+  const handleTaxWithholdingChange = (value: string) => {
+    setParams(prev => ({
+      ...prev,
+      taxWithholding: value as TaxWithholding
+    }));
+  };
+
+  /**
+   * Updates whether withdrawals are a fixed amount or a percentage of the balance
+   */
+  const handleWithdrawalTypeChange = (value: string) => {
+    setParams(prev => ({
+      ...prev,
+      withdrawalType: value as WithdrawalType
+    }));
+  };
+
+  /**
+   * Updates how often withdrawals are made
+   */
+  const handleWithdrawalFrequencyChange = (value: string) => {
+    setParams(prev => ({
+      ...prev,
+      withdrawalFrequency: value as ContributionFrequency
+    }));
+  };
+
   /**
    * Handles form submission
    * Validates inputs and performs calculation if valid
@@ -139,8 +309,29 @@ export function CalculatorForm({ onCalculate }: CalculatorFormProps) {
       return;
     }
 
+    // Validate the optional inputs (inflation, tax, withdrawals, rate changes, contribution)
+    const problem = validateOptionalParams(params);
+    if (problem) {
+      toast({
+        title: problem.title,
+        description: problem.description,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    // Validate date range (time is then worked out from the dates)
+    if (useEndDate && (rangeDays === null || rangeDays <= 0)) {
+      toast({
+        title: "Invalid Date Range",
+        description: "Maturity date must be after the start date",
+        variant: "destructive"
+      });
+      return;
+    }
+
     // Validate time period
-    if (params.time <= 0 || !Number.isInteger(params.time)) {
+    if (!useEndDate && (params.time <= 0 || !Number.isInteger(params.time))) {
       toast({
         title: "Invalid Time Period",
         description: "Time period must be a positive integer",
@@ -150,9 +341,23 @@ export function CalculatorForm({ onCalculate }: CalculatorFormProps) {
     }
 
     // Calculate and save results
-    const result = calculateCompoundInterest(params);
-    await saveCalculation(params, result);
-    onCalculate(params);
+    const submittedParams: CalculationParams = useEndDate
+      ? { ...params, time: rangeDays, timeUnit: 'days' }
+      : params;
+    const result = calculateCompoundInterest(submittedParams);
+    onCalculate(submittedParams);
+
+    try {
+      await saveCalculation(submittedParams, result);
+    } catch (error) {
+      console.error('Failed to save calculation:', error);
+      toast({
+        title: "Not saved to history",
+        description: "Your results are shown, but the calculation could not be saved.",
+        variant: "destructive"
+      });
+      return;
+    }
     
     // Show success notification
     toast({
@@ -214,13 +419,15 @@ export function CalculatorForm({ onCalculate }: CalculatorFormProps) {
                   type="number"
                   min="1"
                   step="1"
-                  value={params.time}
+                  value={rangeDays ?? params.time}
                   onChange={handleChange}
+                  disabled={useEndDate}
                   className="finance-input h-10 sm:h-11 text-sm sm:text-base"
                 />
                 <Select 
-                  value={params.timeUnit || 'years'} 
+                  value={useEndDate ? 'days' : params.timeUnit || 'years'} 
                   onValueChange={(value) => setParams(prev => ({ ...prev, timeUnit: value }))}
+                  disabled={useEndDate}
                 >
                   <SelectTrigger className="w-[100px] h-10 sm:h-11 text-sm sm:text-base">
                     <SelectValue placeholder="Select unit" />
@@ -250,10 +457,268 @@ export function CalculatorForm({ onCalculate }: CalculatorFormProps) {
                   <SelectItem value="monthly">Monthly</SelectItem>
                   <SelectItem value="weekly">Weekly</SelectItem>
                   <SelectItem value="daily">Daily</SelectItem>
+                  <SelectItem value="continuously">Continuously</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Day-Count Convention Select */}
+            <div className="space-y-2">
+              <Label htmlFor="dayCountMethod" className="text-sm sm:text-base">Day-Count Convention</Label>
+              <Select 
+                value={params.dayCountMethod || 'actual/365'} 
+                onValueChange={handleDayCountChange}
+              >
+                <SelectTrigger id="dayCountMethod" className="h-10 sm:h-11 text-sm sm:text-base">
+                  <SelectValue placeholder="Select convention" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="actual/365">Actual/365</SelectItem>
+                  <SelectItem value="actual/360">Actual/360</SelectItem>
+                  <SelectItem value="30/360">30/360</SelectItem>
+                  <SelectItem value="actual/actual">Actual/Actual</SelectItem>
                 </SelectContent>
               </Select>
             </div>
 
+            {/* Stub Period Selects */}
+            <div className="space-y-2">
+              <Label htmlFor="stubPosition" className="text-sm sm:text-base">Stub Period</Label>
+              <div className="flex gap-2">
+                <Select 
+                  value={params.stubPosition || 'back'} 
+                  onValueChange={handleStubPositionChange}
+                >
+                  <SelectTrigger id="stubPosition" className="h-10 sm:h-11 text-sm sm:text-base">
+                    <SelectValue placeholder="Select position" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="back">Back (at maturity)</SelectItem>
+                    <SelectItem value="front">Front (at start)</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select 
+                  value={params.stubMethod || 'compound'} 
+                  onValueChange={handleStubMethodChange}
+                >
+                  <SelectTrigger className="w-[140px] h-10 sm:h-11 text-sm sm:text-base">
+                    <SelectValue placeholder="Select method" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="compound">Compound</SelectItem>
+                    <SelectItem value="simple">Simple</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {/* Periodic Contribution Input */}
+            <div className="space-y-2">
+              <Label htmlFor="contribution" className="text-sm sm:text-base">Periodic Contribution (₱)</Label>
+              <Input
+                id="contribution"
+                name="contribution"
+                type="number"
+                min="0"
+                step="100"
+                value={params.contribution ?? ""}
+                onChange={handleChange}
+                placeholder="Optional"
+                className="finance-input h-10 sm:h-11 text-sm sm:text-base"
+              />
+            </div>
+
+            {/* Contribution Frequency and Timing Selects */}
+            <div className="space-y-2">
+              <Label htmlFor="contributionFrequency" className="text-sm sm:text-base">Contribution Schedule</Label>
+              <div className="flex gap-2">
+                <Select 
+                  value={params.contributionFrequency || 'monthly'} 
+                  onValueChange={handleContributionFrequencyChange}
+                >
+                  <SelectTrigger id="contributionFrequency" className="h-10 sm:h-11 text-sm sm:text-base">
+                    <SelectValue placeholder="Select frequency" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="annually">Annually</SelectItem>
+                    <SelectItem value="semi-annually">Semi-Annually</SelectItem>
+                    <SelectItem value="quarterly">Quarterly</SelectItem>
+                    <SelectItem value="monthly">Monthly</SelectItem>
+                    <SelectItem value="weekly">Weekly</SelectItem>
+                    <SelectItem value="daily">Daily</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select 
+                  value={params.contributionTiming || 'end'} 
+                  onValueChange={handleContributionTimingChange}
+                >
+                  <SelectTrigger className="w-[140px] h-10 sm:h-11 text-sm sm:text-base">
+                    <SelectValue placeholder="Select timing" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="beginning">Beginning</SelectItem>
+                    <SelectItem value="end">End</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {/* Inflation Rate Input */}
+            <div className="space-y-2">
+              <Label htmlFor="inflationRate" className="text-sm sm:text-base">Annual Inflation Rate (%)</Label>
+              <Input
+                id="inflationRate"
+                name="inflationRate"
+                type="number"
+                min="0"
+                step="0.1"
+                value={params.inflationRate ?? ""}
+                onChange={handleChange}
+                placeholder="Optional"
+                className="finance-input h-10 sm:h-11 text-sm sm:text-base"
+              />
+            </div>
+
+            {/* Tax on Interest Select and Rate Input */}
+            <div className="space-y-2">
+              <Label htmlFor="taxWithholding" className="text-sm sm:text-base">Tax on Interest</Label>
+              <div className="flex gap-2">
+                <Select 
+                  value={params.taxWithholding || 'exempt'} 
+                  onValueChange={handleTaxWithholdingChange}
+                >
+                  <SelectTrigger id="taxWithholding" className="h-10 sm:h-11 text-sm sm:text-base">
+                    <SelectValue placeholder="Select treatment" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="exempt">Tax-Exempt</SelectItem>
+                    <SelectItem value="per-period">Withheld Each Period</SelectItem>
+                    <SelectItem value="at-maturity">Withheld at Maturity</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  id="taxRate"
+                  name="taxRate"
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.5"
+                  value={params.taxRate ?? ""}
+                  onChange={handleChange}
+                  disabled={!params.taxWithholding || params.taxWithholding === 'exempt'}
+                  aria-label="Tax rate (%)"
+                  className="finance-input w-[100px] h-10 sm:h-11 text-sm sm:text-base"
+                />
+              </div>
+            </div>
+
+            {/* Withdrawal Amount and Type */}
+            <div className="space-y-2">
+              <Label htmlFor="withdrawal" className="text-sm sm:text-base">Scheduled Withdrawal</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="withdrawal"
+                  name="withdrawal"
+                  type="number"
+                  min="0"
+                  step={params.withdrawalType === 'percentage' ? "0.1" : "100"}
+                  value={params.withdrawal ?? ""}
+                  onChange={handleChange}
+                  placeholder="Optional"
+                  className="finance-input h-10 sm:h-11 text-sm sm:text-base"
+                />
+                <Select 
+                  value={params.withdrawalType || 'fixed'} 
+                  onValueChange={handleWithdrawalTypeChange}
+                >
+                  <SelectTrigger className="w-[140px] h-10 sm:h-11 text-sm sm:text-base">
+                    <SelectValue placeholder="Select type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="fixed">Amount (₱)</SelectItem>
+                    <SelectItem value="percentage">% of Balance</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {/* Withdrawal Frequency and Start Period */}
+            <div className="space-y-2">
+              <Label htmlFor="withdrawalFrequency" className="text-sm sm:text-base">Withdrawal Schedule</Label>
+              <div className="flex gap-2">
+                <Select 
+                  value={params.withdrawalFrequency || 'monthly'} 
+                  onValueChange={handleWithdrawalFrequencyChange}
+                >
+                  <SelectTrigger id="withdrawalFrequency" className="h-10 sm:h-11 text-sm sm:text-base">
+                    <SelectValue placeholder="Select frequency" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="annually">Annually</SelectItem>
+                    <SelectItem value="semi-annually">Semi-Annually</SelectItem>
+                    <SelectItem value="quarterly">Quarterly</SelectItem>
+                    <SelectItem value="monthly">Monthly</SelectItem>
+                    <SelectItem value="weekly">Weekly</SelectItem>
+                    <SelectItem value="daily">Daily</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  id="withdrawalStartPeriod"
+                  name="withdrawalStartPeriod"
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={params.withdrawalStartPeriod ?? ""}
+                  onChange={handleChange}
+                  aria-label="Start at period"
+                  title="Start at period"
+                  className="finance-input w-[100px] h-10 sm:h-11 text-sm sm:text-base"
+                />
+              </div>
+            </div>
+
+            {/* Optional Rate Schedule Section */}
+            <div className="space-y-2 sm:col-span-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm sm:text-base">Rate Changes</Label>
+                <Button type="button" variant="outline" size="sm" onClick={handleAddRateChange} className="text-xs sm:text-sm">
+                  Add Rate Change
+                </Button>
+              </div>
+              {(params.rateSchedule || []).map((change, index) => (
+                <div key={index} className="flex gap-2 items-center">
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    placeholder="From year"
+                    aria-label="From year"
+                    value={change.fromYear}
+                    onChange={(e) => handleRateChangeEdit(index, 'fromYear', e.target.value)}
+                    className="finance-input h-10 sm:h-11 text-sm sm:text-base"
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.1"
+                    placeholder="New rate (%)"
+                    aria-label="New rate (%)"
+                    value={change.rate}
+                    onChange={(e) => handleRateChangeEdit(index, 'rate', e.target.value)}
+                    className="finance-input h-10 sm:h-11 text-sm sm:text-base"
+                  />
+                  <Button type="button" variant="ghost" size="sm" onClick={() => handleRemoveRateChange(index)} className="text-xs sm:text-sm">
+                    Remove
+                  </Button>
+                </div>
+              ))}
+              {(params.rateSchedule || []).length > 0 && (
+                <p className="text-xs sm:text-sm text-muted-foreground">
+                  The annual rate above applies until the first change; each new rate applies from its start year onwards.
+                </p>
+              )}
+            </div>
+
             {/* Optional Start Date Section */}
             <div className="space-y-2 sm:col-span-2">
               <div className="flex items-center space-x-2">
@@ -274,6 +739,26 @@ export function CalculatorForm({ onCalculate }: CalculatorFormProps) {
                   className="finance-input h-10 sm:h-11 text-sm sm:text-base"
                 />
               )}
+              {includeDate && (
+                <div className="flex items-center space-x-2 pt-2">
+                  <Checkbox
+                    id="useEndDate"
+                    checked={useEndDate}
+                    onCheckedChange={(checked) => setUseEndDate(checked as boolean)}
+                  />
+                  <Label htmlFor="useEndDate" className="text-sm sm:text-base">Use Maturity Date Instead of Time Period</Label>
+                </div>
+              )}
+              {useEndDate && (
+                <Input
+                  id="endDate"
+                  name="endDate"
+                  type="date"
+                  value={params.endDate ? params.endDate.toISOString().split('T')[0] : ''}
+                  onChange={handleChange}
+                  className="finance-input h-10 sm:h-11 text-sm sm:text-base"
+                />
+              )}
             </div>
           </div>
 
@@ -290,9 +775,24 @@ export function CalculatorForm({ onCalculate }: CalculatorFormProps) {
                 setParams({
                   principal: "" as any,
                   rate: "" as any,
+                  rateSchedule: [],
                   time: "" as any,
                   frequency: "" as any,
-                  startDate: null
+                  dayCountMethod: 'actual/365',
+                  startDate: null,
+                  endDate: null,
+                  stubPosition: 'back',
+                  stubMethod: 'compound',
+                  contribution: undefined,
+                  contributionFrequency: 'monthly',
+                  contributionTiming: 'end',
+                  inflationRate: undefined,
+                  taxRate: PH_FINAL_WITHHOLDING_TAX_RATE,
+                  taxWithholding: 'exempt',
+                  withdrawal: undefined,
+                  withdrawalType: 'fixed',
+                  withdrawalFrequency: 'monthly',
+                  withdrawalStartPeriod: 1
                 });
                 toast({
                   title: "Fields Reset",
@@ -0,0 +1,83 @@
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { useToast } from "@/components/ui/use-toast";
+import { getFormulaForSolveFor, getStepByStepCalculation, toPlainText } from "@/components/calculation-steps";
+import { CalculationParams, CalculationResult } from "@/utils/calculatorUtils";
+import { ExportFormat, exportSchedule } from "@/utils/exportUtils";
+import { downloadCalculationReport } from "@/utils/reportUtils";
+
+/**
+ * Props interface for the ExportMenu component
+ * @property params - The calculation parameters
+ * @property result - The calculation result to export
+ * @property solveFor - Optional value that was solved for (sets the formula in the report)
+ */
+interface ExportMenuProps {
+  params: CalculationParams;
+  result: CalculationResult;
+  solveFor?: string;
+}
+
+/**
+ * ExportMenu Component
+ *
+ * Downloads the breakdown schedule, with the inputs and formula above it,
+ * as a CSV file or an Excel workbook, or the whole calculation as a PDF report.
+ */
+export function ExportMenu({ params, result, solveFor }: ExportMenuProps) {
+  const { toast } = useToast();
+
+  const handleExport = (format: ExportFormat) => {
+    try {
+      exportSchedule(params, result, format);
+    } catch (error) {
+      console.error('Error exporting schedule:', error);
+      toast({
+        title: "Export failed",
+        description: "The schedule could not be exported. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDownloadReport = () => {
+    try {
+      const formula = getFormulaForSolveFor(solveFor, params.frequency, result.totalContributions > 0, params.rateSchedule?.length > 0);
+      downloadCalculationReport(params, result, {
+        formula: toPlainText(formula),
+        steps: getStepByStepCalculation(params, solveFor).map(toPlainText)
+      });
+    } catch (error) {
+      console.error('Error creating report:', error);
+      toast({
+        title: "Report failed",
+        description: "The report could not be created. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="text-xs sm:text-sm">
+          <Download className="h-4 w-4" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => handleExport('csv')}>
+          CSV (.csv)
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport('xlsx')}>
+          Excel (.xlsx)
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={handleDownloadReport}>
+          Download Report (.pdf)
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
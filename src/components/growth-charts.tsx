@@ -0,0 +1,171 @@
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { YearlyBreakdown, formatCurrency } from "@/utils/calculatorUtils";
+
+/**
+ * Props interface for the GrowthCharts component
+ * @property principal - Opening balance, plotted as period 0
+ * @property breakdown - Period-by-period rows from the calculation
+ * @property startDate - Optional start date; when set, periods are labelled with their dates
+ */
+interface GrowthChartsProps {
+  principal: number;
+  breakdown: YearlyBreakdown[];
+  startDate?: Date | null;
+}
+
+// A point on the charts
+interface ChartPoint {
+  period: number;
+  firstPeriod?: number;   // First period whose interest is totalled in interestEarned (when downsampled)
+  date?: string;
+  balance: number;
+  invested: number;
+  interest: number;
+  interestEarned: number;
+}
+
+// Series colours and labels for the charts
+const chartConfig = {
+  balance: {
+    label: "Balance",
+    color: "hsl(var(--primary))",
+  },
+  invested: {
+    label: "Principal & Contributions",
+    color: "hsl(221 83% 53%)",
+  },
+  interest: {
+    label: "Accumulated Interest",
+    color: "hsl(142 71% 45%)",
+  },
+  interestEarned: {
+    label: "Interest Earned",
+    color: "hsl(142 71% 45%)",
+  },
+} satisfies ChartConfig;
+
+// Shorten a peso amount for axis ticks
+const formatTick = (value: number) => formatCurrency(value).replace(/\.\d+$/, '');
+
+/**
+ * GrowthCharts Component
+ *
+ * Plots a calculation's period-by-period breakdown as:
+ * 1. Balance over time
+ * 2. The balance split into money put in and interest accumulated (stacked)
+ * 3. Interest earned in each period (totalled over groups of periods when
+ *    a long schedule is downsampled)
+ *
+ * Money put in is the principal plus contributions less withdrawals, capped
+ * at the balance, so the two stacked areas always add up to the balance.
+ */
+export function GrowthCharts({ principal, breakdown, startDate }: GrowthChartsProps) {
+  const points: ChartPoint[] = [
+    {
+      period: 0,
+      date: startDate ? startDate.toISOString().split('T')[0] : undefined,
+      balance: principal,
+      invested: principal,
+      interest: 0,
+      interestEarned: 0
+    },
+    ...breakdown.map(row => {
+      const putIn = Math.max(principal + row.totalContributions - (row.totalWithdrawals || 0), 0);
+      const invested = Math.min(putIn, row.amount);
+      return {
+        period: row.year,
+        date: row.date,
+        balance: row.amount,
+        invested,
+        interest: row.amount - invested,
+        interestEarned: row.interestEarned
+      };
+    })
+  ];
+  // Keep at most about 400 points so long daily schedules stay responsive. Each kept
+  // point totals the interest earned since the previous one, so the bars still add up
+  const step = Math.max(Math.ceil(points.length / 400), 1);
+  const data: ChartPoint[] = [];
+  let bucketInterest = 0;
+  let bucketStart = 0;
+  points.forEach((point, index) => {
+    bucketInterest += point.interestEarned;
+    if (index % step === 0 || index === points.length - 1) {
+      data.push({ ...point, firstPeriod: bucketStart, interestEarned: bucketInterest });
+      bucketInterest = 0;
+      bucketStart = point.period + 1;
+    }
+  });
+  const hasDates = data.every(point => point.date);
+
+  // Axes, grid and tooltip shared by the three charts; the interest bars are labelled
+  // with the range of periods they total
+  const renderAxes = (showPeriodRange = false) => [
+    <CartesianGrid key="grid" vertical={false} />,
+    <XAxis key="x" dataKey={hasDates ? 'date' : 'period'} tickLine={false} axisLine={false} minTickGap={24} />,
+    <YAxis key="y" tickLine={false} axisLine={false} width={80} tickFormatter={formatTick} />,
+    <ChartTooltip
+      key="tooltip"
+      content={
+        <ChartTooltipContent
+          labelFormatter={(_, payload) => {
+            const point = payload?.[0]?.payload as ChartPoint | undefined;
+            if (!point) return '';
+            const periods = showPeriodRange && point.firstPeriod < point.period
+              ? `Periods ${point.firstPeriod}–${point.period}`
+              : `Period ${point.period}`;
+            return point.date ? `${periods} (${point.date})` : periods;
+          }}
+          formatter={(value, name) => (
+            <div className="flex w-full justify-between gap-4">
+              <span className="text-muted-foreground">{chartConfig[name as keyof typeof chartConfig]?.label ?? name}</span>
+              <span className="font-mono font-medium tabular-nums">{formatCurrency(Number(value))}</span>
+            </div>
+          )}
+        />
+      }
+    />
+  ];
+
+  return (
+    <div className="space-y-4">
+      {/* Balance Over Time */}
+      <div className="rounded-md border p-3 sm:p-4">
+        <h3 className="text-base sm:text-lg font-medium mb-2">Balance Over Time</h3>
+        <ChartContainer config={chartConfig} className="h-[250px] sm:h-[300px] w-full aspect-auto">
+          <LineChart data={data} margin={{ left: 12, right: 12 }}>
+            {renderAxes()}
+            <Line dataKey="balance" type="monotone" stroke="var(--color-balance)" strokeWidth={2} dot={false} />
+          </LineChart>
+        </ChartContainer>
+      </div>
+
+      {/* Principal vs Interest */}
+      <div className="rounded-md border p-3 sm:p-4">
+        <h3 className="text-base sm:text-lg font-medium mb-2">Principal vs Interest</h3>
+        <ChartContainer config={chartConfig} className="h-[250px] sm:h-[300px] w-full aspect-auto">
+          <AreaChart data={data} margin={{ left: 12, right: 12 }}>
+            {renderAxes()}
+            <ChartLegend content={<ChartLegendContent />} />
+            <Area dataKey="invested" type="monotone" stackId="balance" stroke="var(--color-invested)" fill="var(--color-invested)" fillOpacity={0.4} />
+            <Area dataKey="interest" type="monotone" stackId="balance" stroke="var(--color-interest)" fill="var(--color-interest)" fillOpacity={0.4} />
+          </AreaChart>
+        </ChartContainer>
+      </div>
+
+      {/* Interest Earned per Period */}
+      <div className="rounded-md border p-3 sm:p-4">
+        <h3 className="text-base sm:text-lg font-medium mb-2">
+          {step > 1 ? `Interest Earned per ${step} Periods` : 'Interest Earned per Period'}
+        </h3>
+        <ChartContainer config={chartConfig} className="h-[250px] sm:h-[300px] w-full aspect-auto">
+          <BarChart data={data.slice(1)} margin={{ left: 12, right: 12 }}>
+            {renderAxes(true)}
+            <Bar dataKey="interestEarned" fill="var(--color-interestEarned)" radius={2} />
+          </BarChart>
+        </ChartContainer>
+      </div>
+    </div>
+  );
+}
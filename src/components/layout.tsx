@@ -1,5 +1,6 @@
 import React from "react";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { AccountMenu } from "@/components/account-menu";
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -38,6 +39,7 @@ export function Layout({ children }: LayoutProps) {
               <h1 className="font-bold text-lg sm:text-xl">Compound Interest Calculator</h1>
             </div>
             <div className="flex items-center justify-between space-x-2">
+              <AccountMenu />
               <ThemeToggle />
             </div>
           </div>
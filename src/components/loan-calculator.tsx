@@ -0,0 +1,395 @@
+/**
+ * LoanCalculator Component
+ *
+ * A form component for loan amortization that allows users to:
+ * - Input the amount borrowed, annual interest rate, term and payment frequency
+ * - Optionally include a release date so each payment is dated
+ * - Optionally add an extra payment with every scheduled payment
+ * - Optionally add one-off prepayments at chosen payment numbers
+ * - Choose whether prepayments lower the payment (re-amortize) or end the loan early
+ * - Reset form fields
+ *
+ * The component handles:
+ * - Form validation
+ * - Local storage persistence
+ * - Toast notifications for user feedback
+ * - Responsive design for different screen sizes
+ */
+
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { ContributionFrequency } from "@/utils/calculatorUtils";
+import { LoanParams, Prepayment, PrepaymentStrategy } from "@/utils/loanUtils";
+
+/**
+ * Props interface for the LoanCalculator component
+ * @property onCalculate - Callback function that receives loan parameters when form is submitted
+ */
+interface LoanCalculatorProps {
+  onCalculate: (params: LoanParams) => void;
+}
+
+// Storage key for persisting form values
+const STORAGE_KEY = 'loanParams';
+
+// Empty form values; numeric fields start blank so placeholders show
+const EMPTY_VALUES = {
+  principal: "",
+  rate: "",
+  term: "",
+  paymentFrequency: 'monthly',
+  startDate: null,
+  extraPayment: "",
+  prepayments: [],
+  prepaymentStrategy: 'shorten-term'
+};
+
+export function LoanCalculator({ onCalculate }: LoanCalculatorProps) {
+  // Initialize form state from localStorage or with empty values
+  const [params, setParams] = useState<LoanParams>(() => {
+    const savedParams = localStorage.getItem(STORAGE_KEY);
+    return savedParams ? JSON.parse(savedParams) : EMPTY_VALUES;
+  });
+  const { toast } = useToast();
+
+  // Save form values to localStorage whenever they change
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(params));
+  }, [params]);
+
+  /**
+   * Handles changes to numeric input fields
+   * Converts empty strings to empty values, otherwise parses as float
+   * (the release date is parsed as a date and cleared to null)
+   */
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setParams(prev => ({
+      ...prev,
+      [name]: name === 'startDate' ? (value === '' ? null : new Date(value)) : value === '' ? '' : parseFloat(value)
+    }));
+  };
+
+  /**
+   * Updates how often payments are made
+   */
+  const handlePaymentFrequencyChange = (value: string) => {
+    setParams(prev => ({
+      ...prev,
+      paymentFrequency: value as ContributionFrequency
+    }));
+  };
+
+  /**
+   * Updates what happens to the schedule after a prepayment
+   */
+  const handlePrepaymentStrategyChange = (value: string) => {
+    setParams(prev => ({
+      ...prev,
+      prepaymentStrategy: value as PrepaymentStrategy
+    }));
+  };
+
+  /**
+   * Adds a new one-off prepayment row
+   * Defaults to one year of payments after the last prepayment, with the same amount
+   */
+  const handleAddPrepayment = () => {
+    setParams(prev => {
+      const prepayments = prev.prepayments || [];
+      const last = prepayments[prepayments.length - 1];
+      return {
+        ...prev,
+        prepayments: [...prepayments, { period: (Number(last?.period) || 0) + 12, amount: Number(last?.amount) || 0 }]
+      };
+    });
+  };
+
+  /**
+   * Updates a field of one prepayment row
+   */
+  const handlePrepaymentEdit = (index: number, field: keyof Prepayment, value: string) => {
+    setParams(prev => ({
+      ...prev,
+      prepayments: (prev.prepayments || []).map((prepayment, i) =>
+        i === index ? { ...prepayment, [field]: value === '' ? '' : parseFloat(value) } : prepayment
+      )
+    }));
+  };
+
+  /**
+   * Removes one prepayment row
+   */
+  const handleRemovePrepayment = (index: number) => {
+    setParams(prev => ({
+      ...prev,
+      prepayments: (prev.prepayments || []).filter((_, i) => i !== index)
+    }));
+  };
+
+  /**
+   * Handles form submission
+   * Validates inputs and passes the loan to the results view
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Validate required fields
+    const isBlank = (value: unknown) => value === '' || value === null || value === undefined;
+    if ([params.principal, params.rate, params.term].some(isBlank)) {
+      toast({
+        title: "Missing Fields",
+        description: "Please fill in the loan amount, interest rate and term",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    // Validate loan amount and rate
+    if (params.principal <= 0) {
+      toast({
+        title: "Invalid Loan Amount",
+        description: "Loan amount must be greater than 0",
+        variant: "destructive"
+      });
+      return;
+    }
+    if (params.rate < 0 || params.rate > 100) {
+      toast({
+        title: "Invalid Interest Rate",
+        description: "Interest rate must be between 0% and 100%",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    // Validate term
+    if (params.term <= 0) {
+      toast({
+        title: "Invalid Term",
+        description: "Loan term must be greater than 0 years",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    // Validate prepayments (optional)
+    const hasInvalidPrepayment = params.extraPayment < 0 || (params.prepayments || []).some(prepayment =>
+      typeof prepayment.period !== 'number' || !Number.isInteger(prepayment.period) || prepayment.period < 1 ||
+      typeof prepayment.amount !== 'number' || isNaN(prepayment.amount) || prepayment.amount < 0
+    );
+    if (hasInvalidPrepayment) {
+      toast({
+        title: "Invalid Prepayment",
+        description: "Prepayments need a whole payment number of 1 or later and an amount that isn't negative",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    onCalculate({
+      ...params,
+      startDate: params.startDate ? new Date(params.startDate) : null
+    });
+  };
+
+  // Render the form UI
+  return (
+    <Card className="w-full">
+      <CardHeader className="px-4 sm:px-6">
+        <CardTitle className="text-xl sm:text-2xl">Loan Amortization</CardTitle>
+        <CardDescription className="text-sm sm:text-base">
+          Work out the periodic payment of a loan and see how each payment splits into interest and principal.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="px-4 sm:px-6">
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {/* Input Fields Grid */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-6">
+            {/* Loan Amount Input */}
+            <div className="space-y-2">
+              <Label htmlFor="loanPrincipal" className="text-sm sm:text-base">Loan Amount (₱)</Label>
+              <Input
+                id="loanPrincipal"
+                name="principal"
+                type="number"
+                min="0"
+                step="1000"
+                value={params.principal ?? ""}
+                onChange={handleChange}
+                placeholder="Enter loan amount"
+                className="finance-input h-10 sm:h-11 text-sm sm:text-base"
+              />
+            </div>
+
+            {/* Interest Rate Input */}
+            <div className="space-y-2">
+              <Label htmlFor="loanRate" className="text-sm sm:text-base">Annual Interest Rate (%)</Label>
+              <Input
+                id="loanRate"
+                name="rate"
+                type="number"
+                min="0"
+                step="0.01"
+                value={params.rate ?? ""}
+                onChange={handleChange}
+                placeholder="Enter interest rate"
+                className="finance-input h-10 sm:h-11 text-sm sm:text-base"
+              />
+            </div>
+
+            {/* Term Input */}
+            <div className="space-y-2">
+              <Label htmlFor="loanTerm" className="text-sm sm:text-base">Loan Term (years)</Label>
+              <Input
+                id="loanTerm"
+                name="term"
+                type="number"
+                min="0"
+                step="0.5"
+                value={params.term ?? ""}
+                onChange={handleChange}
+                placeholder="Enter term"
+                className="finance-input h-10 sm:h-11 text-sm sm:text-base"
+              />
+            </div>
+
+            {/* Payment Frequency Select */}
+            <div className="space-y-2">
+              <Label htmlFor="paymentFrequency" className="text-sm sm:text-base">Payment Frequency</Label>
+              <Select
+                value={params.paymentFrequency || 'monthly'}
+                onValueChange={handlePaymentFrequencyChange}
+              >
+                <SelectTrigger id="paymentFrequency" className="h-10 sm:h-11 text-sm sm:text-base">
+                  <SelectValue placeholder="Select frequency" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="annually">Annually</SelectItem>
+                  <SelectItem value="semi-annually">Semi-Annually</SelectItem>
+                  <SelectItem value="quarterly">Quarterly</SelectItem>
+                  <SelectItem value="monthly">Monthly</SelectItem>
+                  <SelectItem value="weekly">Weekly</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Extra Payment Input */}
+            <div className="space-y-2">
+              <Label htmlFor="extraPayment" className="text-sm sm:text-base">Extra Payment Each Period (₱)</Label>
+              <Input
+                id="extraPayment"
+                name="extraPayment"
+                type="number"
+                min="0"
+                step="100"
+                value={params.extraPayment ?? ""}
+                onChange={handleChange}
+                placeholder="Optional"
+                className="finance-input h-10 sm:h-11 text-sm sm:text-base"
+              />
+            </div>
+
+            {/* Prepayment Strategy Select */}
+            <div className="space-y-2">
+              <Label htmlFor="prepaymentStrategy" className="text-sm sm:text-base">After a Prepayment</Label>
+              <Select
+                value={params.prepaymentStrategy || 'shorten-term'}
+                onValueChange={handlePrepaymentStrategyChange}
+              >
+                <SelectTrigger id="prepaymentStrategy" className="h-10 sm:h-11 text-sm sm:text-base">
+                  <SelectValue placeholder="Select strategy" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="shorten-term">Keep Payment, Shorten Term</SelectItem>
+                  <SelectItem value="reamortize">Keep Term, Lower Payment</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Optional One-Off Prepayments Section */}
+            <div className="space-y-2 sm:col-span-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm sm:text-base">One-Off Prepayments</Label>
+                <Button type="button" variant="outline" size="sm" onClick={handleAddPrepayment} className="text-xs sm:text-sm">
+                  Add Prepayment
+                </Button>
+              </div>
+              {(params.prepayments || []).map((prepayment, index) => (
+                <div key={index} className="flex gap-2 items-center">
+                  <Input
+                    type="number"
+                    min="1"
+                    step="1"
+                    placeholder="Payment number"
+                    aria-label="Payment number"
+                    value={prepayment.period}
+                    onChange={(e) => handlePrepaymentEdit(index, 'period', e.target.value)}
+                    className="finance-input h-10 sm:h-11 text-sm sm:text-base"
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    step="1000"
+                    placeholder="Amount (₱)"
+                    aria-label="Amount (₱)"
+                    value={prepayment.amount}
+                    onChange={(e) => handlePrepaymentEdit(index, 'amount', e.target.value)}
+                    className="finance-input h-10 sm:h-11 text-sm sm:text-base"
+                  />
+                  <Button type="button" variant="ghost" size="sm" onClick={() => handleRemovePrepayment(index)} className="text-xs sm:text-sm">
+                    Remove
+                  </Button>
+                </div>
+              ))}
+              {(params.prepayments || []).length > 0 && (
+                <p className="text-xs sm:text-sm text-muted-foreground">
+                  Each prepayment is made together with the scheduled payment of the same number.
+                </p>
+              )}
+            </div>
+
+            {/* Optional Release Date Input */}
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="loanStartDate" className="text-sm sm:text-base">Release Date</Label>
+              <Input
+                id="loanStartDate"
+                name="startDate"
+                type="date"
+                value={params.startDate ? new Date(params.startDate).toISOString().split('T')[0] : ''}
+                onChange={handleChange}
+                className="finance-input h-10 sm:h-11 text-sm sm:text-base"
+              />
+            </div>
+          </div>
+
+          {/* Action Buttons */}
+          <div className="flex flex-col sm:flex-row gap-4">
+            <Button type="submit" className="w-full sm:flex-1 finance-btn h-10 sm:h-11 text-sm sm:text-base">
+              Calculate Schedule
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full sm:flex-1 h-10 sm:h-11 text-sm sm:text-base"
+              onClick={() => {
+                setParams(JSON.parse(JSON.stringify(EMPTY_VALUES)));
+                toast({
+                  title: "Fields Reset",
+                  description: "All fields have been cleared.",
+                });
+              }}
+            >
+              Reset All Fields
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
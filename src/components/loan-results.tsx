@@ -0,0 +1,184 @@
+/**
+ * LoanResults Component
+ *
+ * Displays a loan amortization in three tabs:
+ * 1. Summary - Periodic payment, number of payments, total interest and total paid
+ * 2. Table - Payment-by-payment split into interest, principal, prepayment and remaining balance
+ * 3. Formula - The annuity formula with the values substituted in
+ *
+ * When prepayments are made, the Summary tab also shows the interest saved
+ * compared with paying only the scheduled amount.
+ */
+
+import { useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { formatCurrency, getFrequencyValue } from "@/utils/calculatorUtils";
+import { LoanParams, calculateAmortization } from "@/utils/loanUtils";
+
+/**
+ * Props interface for the LoanResults component
+ * @property params - The loan to amortize
+ */
+interface LoanResultsProps {
+  params: LoanParams;
+}
+
+export function LoanResults({ params }: LoanResultsProps) {
+  const result = useMemo(() => calculateAmortization(params), [params]);
+  const hasPrepayments = result.schedule.some(row => row.prepayment > 0);
+  const m = getFrequencyValue(params.paymentFrequency);
+  const periodRate = params.rate / 100 / m;
+  const totalPeriods = Math.max(Math.round(params.term * m), 1);
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="px-4 sm:px-6">
+        <CardTitle className="text-xl sm:text-2xl">Amortization Results</CardTitle>
+      </CardHeader>
+      <CardContent className="px-4 sm:px-6">
+        {/* Results Tabs */}
+        <Tabs defaultValue="summary" className="w-full">
+          {/* Tab Navigation */}
+          <TabsList className="mb-4 w-full sm:w-auto flex flex-col sm:flex-row gap-2 sm:gap-1">
+            <TabsTrigger value="summary" className="flex-1 sm:flex-none text-xs sm:text-sm py-2 sm:py-1.5">Summary</TabsTrigger>
+            <TabsTrigger value="breakdown" className="flex-1 sm:flex-none text-xs sm:text-sm py-2 sm:py-1.5">Table</TabsTrigger>
+            <TabsTrigger value="formula" className="flex-1 sm:flex-none text-xs sm:text-sm py-2 sm:py-1.5">Formula</TabsTrigger>
+          </TabsList>
+
+          {/* Summary Tab */}
+          <TabsContent value="summary" className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {/* Periodic Payment */}
+              <div className="bg-muted p-3 sm:p-4 rounded-lg">
+                <h3 className="text-base sm:text-lg font-medium text-muted-foreground">Periodic Payment</h3>
+                <p className="text-xl sm:text-2xl font-bold">{formatCurrency(result.payment)}</p>
+                <p className="text-xs sm:text-sm text-muted-foreground">Paid {params.paymentFrequency}</p>
+              </div>
+              {/* Number of Payments */}
+              <div className="bg-muted p-3 sm:p-4 rounded-lg">
+                <h3 className="text-base sm:text-lg font-medium text-muted-foreground">Number of Payments</h3>
+                <p className="text-xl sm:text-2xl font-bold">{result.numberOfPayments}</p>
+                {result.numberOfPayments < totalPeriods && (
+                  <p className="text-xs sm:text-sm text-muted-foreground">{totalPeriods - result.numberOfPayments} fewer than scheduled</p>
+                )}
+              </div>
+              {/* Total Interest */}
+              <div className="bg-muted p-3 sm:p-4 rounded-lg">
+                <h3 className="text-base sm:text-lg font-medium text-muted-foreground">Total Interest Paid</h3>
+                <p className="text-xl sm:text-2xl font-bold">{formatCurrency(result.totalInterest)}</p>
+              </div>
+              {/* Total Paid */}
+              <div className="bg-muted p-3 sm:p-4 rounded-lg">
+                <h3 className="text-base sm:text-lg font-medium text-muted-foreground">Total Amount Paid</h3>
+                <p className="text-xl sm:text-2xl font-bold">{formatCurrency(result.totalPaid)}</p>
+              </div>
+              {/* Interest Saved */}
+              {hasPrepayments && (
+                <div className="bg-muted p-3 sm:p-4 rounded-lg">
+                  <h3 className="text-base sm:text-lg font-medium text-muted-foreground">Interest Saved by Prepaying</h3>
+                  <p className="text-xl sm:text-2xl font-bold">{formatCurrency(result.interestSaved)}</p>
+                  <p className="text-xs sm:text-sm text-muted-foreground">
+                    {params.prepaymentStrategy === 'reamortize' ? 'Payments re-amortized over the original term' : 'Same payment, shorter term'}
+                  </p>
+                </div>
+              )}
+            </div>
+          </TabsContent>
+
+          {/* Table Tab - Shows the amortization schedule */}
+          <TabsContent value="breakdown">
+            <div className="rounded-md border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="whitespace-nowrap">Payment Number</TableHead>
+                    {params.startDate && <TableHead className="whitespace-nowrap">Date</TableHead>}
+                    <TableHead className="whitespace-nowrap">Payment</TableHead>
+                    <TableHead className="whitespace-nowrap">Interest</TableHead>
+                    <TableHead className="whitespace-nowrap">Principal</TableHead>
+                    {hasPrepayments && <TableHead className="whitespace-nowrap">Prepayment</TableHead>}
+                    <TableHead className="whitespace-nowrap">Remaining Balance</TableHead>
+                    <TableHead className="whitespace-nowrap">Total Interest</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {/* Initial row for the amount borrowed */}
+                  <TableRow key={0}>
+                    <TableCell className="whitespace-nowrap">0</TableCell>
+                    {params.startDate && <TableCell className="whitespace-nowrap">{params.startDate.toISOString().split('T')[0]}</TableCell>}
+                    <TableCell className="whitespace-nowrap">{formatCurrency(0)}</TableCell>
+                    <TableCell className="whitespace-nowrap">{formatCurrency(0)}</TableCell>
+                    <TableCell className="whitespace-nowrap">{formatCurrency(0)}</TableCell>
+                    {hasPrepayments && <TableCell className="whitespace-nowrap">{formatCurrency(0)}</TableCell>}
+                    <TableCell className="whitespace-nowrap">{formatCurrency(params.principal)}</TableCell>
+                    <TableCell className="whitespace-nowrap">{formatCurrency(0)}</TableCell>
+                  </TableRow>
+                  {/* Payment rows */}
+                  {result.schedule.map((row) => (
+                    <TableRow key={row.year}>
+                      <TableCell className="whitespace-nowrap">{row.year}</TableCell>
+                      {params.startDate && <TableCell className="whitespace-nowrap">{row.date}</TableCell>}
+                      <TableCell className="whitespace-nowrap">{formatCurrency(row.payment)}</TableCell>
+                      <TableCell className="whitespace-nowrap">{formatCurrency(row.interestPaid)}</TableCell>
+                      <TableCell className="whitespace-nowrap">{formatCurrency(row.principalPaid)}</TableCell>
+                      {hasPrepayments && <TableCell className="whitespace-nowrap">{formatCurrency(row.prepayment)}</TableCell>}
+                      <TableCell className="whitespace-nowrap">{formatCurrency(row.balance)}</TableCell>
+                      <TableCell className="whitespace-nowrap">{formatCurrency(row.totalInterest)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </TabsContent>
+
+          {/* Formula Tab */}
+          <TabsContent value="formula" className="space-y-4">
+            <div className="bg-muted p-4 sm:p-6 rounded-lg">
+              {/* Formula Display */}
+              <h3 className="text-base sm:text-lg font-medium mb-2">Formula Used:</h3>
+              <p className="text-base sm:text-xl font-mono break-all">
+                PMT = P × i / (1 - (1 + i)<sup>-N</sup>)
+              </p>
+
+              {/* Variable Definitions */}
+              <div className="mt-4 space-y-2 text-sm sm:text-base">
+                <p><strong>Where:</strong></p>
+                <p>PMT = Periodic payment ({formatCurrency(result.payment)})</p>
+                <p>P = Loan amount ({formatCurrency(params.principal)})</p>
+                <p>i = Interest rate per payment = r/m ({params.rate}% / {m} = {(periodRate * 100).toFixed(4)}%)</p>
+                <p>N = Number of payments = m × t ({m} × {params.term} = {totalPeriods})</p>
+                <p>Each payment's interest is the remaining balance × i; the rest of the payment repays principal.</p>
+                {hasPrepayments && (
+                  <p>
+                    Prepayments go straight to principal; {params.prepaymentStrategy === 'reamortize'
+                      ? 'PMT is then recalculated on the new balance over the remaining payments.'
+                      : 'PMT stays the same, so the loan is repaid early.'}
+                  </p>
+                )}
+              </div>
+
+              {/* Step-by-Step Calculation */}
+              <div className="mt-4 p-3 sm:p-4 bg-white dark:bg-gray-700 rounded-md">
+                <h4 className="font-medium mb-2 text-sm sm:text-base">Step-by-Step Calculation:</h4>
+                <div className="space-y-2">
+                  {[
+                    <>i = {(params.rate / 100).toFixed(4)} / {m} = {periodRate.toFixed(6)}</>,
+                    <>PMT = {formatCurrency(params.principal)} × {periodRate.toFixed(6)} / (1 - (1 + {periodRate.toFixed(6)})<sup>-{totalPeriods}</sup>)</>,
+                    <>PMT = {formatCurrency(result.payment)}</>,
+                    <>Total interest = {formatCurrency(result.totalPaid)} - {formatCurrency(params.principal)} = {formatCurrency(result.totalInterest)}</>
+                  ].map((step, index) => (
+                    <p key={index} className="font-mono text-sm sm:text-base break-all">
+                      Step {index + 1}: {step}
+                    </p>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,16 +7,22 @@
  * - Rate (r): Annual interest rate
  * - Time (t): Investment period in years
  * - Final Amount (A): Future value of the investment
+ * - Periodic Contribution (PMT): The deposit needed to reach a target amount,
+ *   with or without an initial principal (no withdrawals)
+ * - Withdrawal (W): The largest fixed withdrawal the balance can sustain for the
+ *   whole term, leaving the entered final amount (zero by default) at maturity
  * 
  * Features:
  * - Dynamic form that disables the field being solved for
+ * - Numerical solving for rate and time, with convergence status, iteration
+ *   count and "no solution" cases shown below the form
  * - Input validation and error handling
  * - Local storage persistence
  * - Responsive design
  * - Detailed calculation steps
  */
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
@@ -25,28 +31,34 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { useToast } from "@/components/ui/use-toast";
 import { 
   CompoundingFrequency, 
+  ContributionFrequency,
+  ContributionTiming,
+  DayCountMethod,
   calculateMissingPrincipal,
   calculateMissingFinalAmount,
-  calculateMissingRate,
-  calculateMissingTime,
+  calculateMissingContribution,
+  calculateMaxWithdrawal,
   formatCurrency,
-  saveCalculation,
   calculateCompoundInterest,
   CalculationParams,
   getFormula
 } from "@/utils/calculatorUtils";
-import { supabase } from "@/integrations/supabase/client";
+import { SolveResult, SolveStatus, solveForField } from "@/utils/solverUtils";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useCalculationRepository } from "@/hooks/use-calculation-repository";
 
 /**
  * Props interface for the MissingValueCalculator component
  * @property onCalculate - Callback function that receives calculation parameters and the solved value
  * @property solveFor - The variable currently being solved for
  * @property setSolveFor - Function to update which variable to solve for
+ * @property sharedParams - Optional solved parameters from a shared link; they fill in the form
  */
 interface MissingValueCalculatorProps {
   onCalculate: (params: CalculationParams, solveFor: string) => void;
   solveFor: string;
   setSolveFor: (value: string) => void;
+  sharedParams?: CalculationParams | null;
 }
 
 /**
@@ -60,6 +72,9 @@ interface NumericValues {
   finalAmount: number | null;
   frequency: CompoundingFrequency;
   timeUnit: 'years' | 'days';
+  dayCountMethod: DayCountMethod;
+  contribution: number | null;
+  withdrawal: number | null;
 }
 
 /**
@@ -73,6 +88,11 @@ interface StoredValues {
   timeUnit: 'years' | 'days';
   finalAmount: string;
   frequency: CompoundingFrequency;
+  dayCountMethod: DayCountMethod;
+  contributionFrequency: ContributionFrequency;
+  contributionTiming: ContributionTiming;
+  withdrawalFrequency: ContributionFrequency;
+  withdrawalStartPeriod: string;
 }
 
 // Storage key for persisting form values
@@ -85,7 +105,12 @@ const SAMPLE_VALUES: StoredValues = {
   time: "",
   timeUnit: "years",
   finalAmount: "",
-  frequency: "monthly"
+  frequency: "monthly",
+  dayCountMethod: "actual/365",
+  contributionFrequency: "monthly",
+  contributionTiming: "end",
+  withdrawalFrequency: "monthly",
+  withdrawalStartPeriod: "1"
 };
 
 /**
@@ -97,16 +122,53 @@ function cleanNumberInput(input: string): string {
   return input.replace(/[^0-9.-]/g, '');
 }
 
+/**
+ * Fills the form from solved calculation parameters (e.g. from a shared link),
+ * leaving the solved-for field empty
+ * @param params - The solved calculation parameters
+ * @param solveFor - The value that was solved for
+ * @returns Form values
+ */
+function getValuesFromParams(params: CalculationParams, solveFor: string): StoredValues {
+  const toField = (value: number | undefined) => value === undefined || value === null ? '' : String(value);
+  const values: StoredValues = {
+    principal: toField(params.principal),
+    rate: toField(params.rate),
+    time: toField(params.time),
+    timeUnit: params.timeUnit,
+    finalAmount: toField(params.targetAmount),
+    frequency: params.frequency,
+    dayCountMethod: params.dayCountMethod || 'actual/365',
+    contributionFrequency: params.contributionFrequency || 'monthly',
+    contributionTiming: params.contributionTiming || 'end',
+    withdrawalFrequency: params.withdrawalFrequency || 'monthly',
+    withdrawalStartPeriod: toField(params.withdrawalStartPeriod) || '1'
+  };
+  if (solveFor in values) values[solveFor] = '';
+  return values;
+}
+
 // Available options for what to solve for
 const solveOptions = [
   { value: 'principal', label: 'Principal (P)' },
   { value: 'rate', label: 'Annual Interest Rate (r)' },
-  { value: 'time', label: 'Time Period (t)' }
+  { value: 'time', label: 'Time Period (t)' },
+  { value: 'finalAmount', label: 'Final Amount (A)' },
+  { value: 'contribution', label: 'Periodic Contribution (PMT)' },
+  { value: 'withdrawal', label: 'Maximum Sustainable Withdrawal (W)' }
 ];
 
-export function MissingValueCalculator({ onCalculate, solveFor, setSolveFor }: MissingValueCalculatorProps) {
+// Headings for each solver outcome
+const SOLVE_STATUS_LABELS: Record<SolveStatus, string> = {
+  'converged': 'Solution Found',
+  'no-solution': 'No Solution',
+  'max-iterations': 'Did Not Converge'
+};
+
+export function MissingValueCalculator({ onCalculate, solveFor, setSolveFor, sharedParams }: MissingValueCalculatorProps) {
   // Initialize form state
   const [values, setValues] = useState<StoredValues>(() => {
+    if (sharedParams) return getValuesFromParams(sharedParams, solveFor);
     const savedValues = localStorage.getItem('missingValueParams');
     return savedValues ? JSON.parse(savedValues) : {
       principal: '',
@@ -114,13 +176,27 @@ export function MissingValueCalculator({ onCalculate, solveFor, setSolveFor }: M
       time: '',
       timeUnit: 'years',
       finalAmount: '',
-      frequency: 'annually'
+      frequency: 'annually',
+      dayCountMethod: 'actual/365',
+      contributionFrequency: 'monthly',
+      contributionTiming: 'end',
+      withdrawalFrequency: 'monthly',
+      withdrawalStartPeriod: '1'
     };
   });
+  const [solverResult, setSolverResult] = useState<SolveResult | null>(null);
   const { toast } = useToast();
+  const { saveCalculation } = useCalculationRepository();
+  // Values from a shared link survive the first solveFor reset below
+  const keepSharedValues = useRef(!!sharedParams);
 
   // Reset the field being solved for when solveFor changes
   useEffect(() => {
+    if (keepSharedValues.current) {
+      keepSharedValues.current = false;
+      return;
+    }
+    setSolverResult(null);
     setValues(prev => {
       const newValues = { ...SAMPLE_VALUES };
       newValues[solveFor] = "";
@@ -155,6 +231,46 @@ export function MissingValueCalculator({ onCalculate, solveFor, setSolveFor }: M
     }));
   };
 
+  /**
+   * Updates the day-count convention used to convert days into years
+   */
+  const handleDayCountChange = (value: string) => {
+    setValues(prev => ({
+      ...prev,
+      dayCountMethod: value as DayCountMethod
+    }));
+  };
+
+  /**
+   * Updates how often deposits are made when solving for the contribution
+   */
+  const handleContributionFrequencyChange = (value: string) => {
+    setValues(prev => ({
+      ...prev,
+      contributionFrequency: value as ContributionFrequency
+    }));
+  };
+
+  /**
+   * Updates whether deposits are made at the beginning or end of each period
+   */
+  const handleContributionTimingChange = (value: string) => {
+    setValues(prev => ({
+      ...prev,
+      contributionTiming: value as ContributionTiming
+    }));
+  };
+
+  /**
+   * Updates how often withdrawals are made when solving for the withdrawal
+   */
+  const handleWithdrawalFrequencyChange = (value: string) => {
+    setValues(prev => ({
+      ...prev,
+      withdrawalFrequency: value as ContributionFrequency
+    }));
+  };
+
   /**
    * Updates which variable to solve for
    * Clears the field that will be calculated
@@ -174,6 +290,8 @@ export function MissingValueCalculator({ onCalculate, solveFor, setSolveFor }: M
     switch (field) {
       case 'principal':
       case 'finalAmount':
+      case 'contribution':
+      case 'withdrawal':
         return formatCurrency(value);
       case 'rate':
         return value.toFixed(2) + '%';
@@ -189,8 +307,15 @@ export function MissingValueCalculator({ onCalculate, solveFor, setSolveFor }: M
    * Validates inputs and performs the appropriate calculation
    */
   const handleCalculate = async () => {
-    // Validate required fields
-    const requiredFields = ['principal', 'rate', 'time'].filter(f => f !== solveFor);
+    setSolverResult(null);
+
+    // Validate required fields; the principal is optional when solving for the contribution,
+    // and the remaining balance when solving for the withdrawal
+    const requiredFields = ['principal', 'rate', 'time', 'finalAmount'].filter(f =>
+      f !== solveFor &&
+      !(f === 'principal' && solveFor === 'contribution') &&
+      !(f === 'finalAmount' && solveFor === 'withdrawal')
+    );
     for (const field of requiredFields) {
       if (!values[field as keyof StoredValues] || values[field as keyof StoredValues].trim() === '') {
         toast({
@@ -204,12 +329,15 @@ export function MissingValueCalculator({ onCalculate, solveFor, setSolveFor }: M
 
     // Parse numeric values
     const numericValues = {
-      principal: solveFor !== 'principal' ? Number(cleanNumberInput(values.principal)) : null,
+      principal: solveFor !== 'principal' ? Number(cleanNumberInput(values.principal || '0')) : null,
       rate: solveFor !== 'rate' ? Number(cleanNumberInput(values.rate)) : null,
       time: solveFor !== 'time' ? Number(cleanNumberInput(values.time)) : null,
       finalAmount: Number(cleanNumberInput(values.finalAmount)),
       frequency: values.frequency,
-      timeUnit: values.timeUnit
+      timeUnit: values.timeUnit,
+      dayCountMethod: values.dayCountMethod || 'actual/365',
+      contribution: null,
+      withdrawal: null
     };
 
     let result: number;
@@ -219,9 +347,20 @@ export function MissingValueCalculator({ onCalculate, solveFor, setSolveFor }: M
       time: numericValues.time!,
       frequency: numericValues.frequency,
       timeUnit: numericValues.timeUnit,
+      dayCountMethod: numericValues.dayCountMethod,
       targetAmount: numericValues.finalAmount
     };
 
+    // Contribution and withdrawal solves run the full simulation, so they carry their schedules
+    if (solveFor === 'contribution') {
+      params.contributionFrequency = values.contributionFrequency || 'monthly';
+      params.contributionTiming = values.contributionTiming || 'end';
+    }
+    if (solveFor === 'withdrawal') {
+      params.withdrawalFrequency = values.withdrawalFrequency || 'monthly';
+      params.withdrawalStartPeriod = Math.max(Math.floor(Number(values.withdrawalStartPeriod) || 1), 1);
+    }
+
     switch (solveFor) {
       case 'principal':
         result = calculateMissingPrincipal(
@@ -229,26 +368,46 @@ export function MissingValueCalculator({ onCalculate, solveFor, setSolveFor }: M
           numericValues.rate!,
           numericValues.time!,
           numericValues.frequency,
-          numericValues.timeUnit
+          numericValues.timeUnit,
+          numericValues.dayCountMethod
         );
+        params.principal = result;
         break;
       case 'rate':
-        result = calculateMissingRate(
-          numericValues.principal!,
-          numericValues.finalAmount,
-          numericValues.time!,
-          numericValues.frequency,
-          numericValues.timeUnit
-        );
+      case 'time': {
+        // Solved numerically against the full schedule, which also reports when no value works
+        const solution = solveForField(params, solveFor, numericValues.finalAmount);
+        setSolverResult(solution);
+        if (solution.status !== 'converged') {
+          toast({
+            title: SOLVE_STATUS_LABELS[solution.status],
+            description: solution.message,
+            variant: "destructive"
+          });
+          return;
+        }
+        result = solution.value;
+        params[solveFor] = result;
         break;
-      case 'time':
-        result = calculateMissingTime(
-          numericValues.principal!,
-          numericValues.finalAmount,
-          numericValues.rate!,
-          numericValues.frequency,
-          numericValues.timeUnit
-        );
+      }
+      case 'contribution':
+        result = calculateMissingContribution(params, numericValues.finalAmount);
+        if (isNaN(result) || result < 0) {
+          toast({
+            title: isNaN(result) ? "Cannot Solve" : "Target Already Reached",
+            description: isNaN(result)
+              ? "No deposits fall within this time period."
+              : `The principal alone grows past ${formatCurrency(numericValues.finalAmount)}, so no contribution is needed.`,
+            variant: "destructive"
+          });
+          return;
+        }
+        params.contribution = result;
+        break;
+      case 'withdrawal':
+        result = calculateMaxWithdrawal(params, numericValues.finalAmount);
+        params.withdrawal = result;
+        params.withdrawalType = 'fixed';
         break;
       default:
         result = calculateMissingFinalAmount(
@@ -256,17 +415,24 @@ export function MissingValueCalculator({ onCalculate, solveFor, setSolveFor }: M
           numericValues.rate!,
           numericValues.time!,
           numericValues.frequency,
-          numericValues.timeUnit
+          numericValues.timeUnit,
+          numericValues.dayCountMethod
         );
     }
 
-    // Save calculation to history
-    await saveCalculation(params, {
-      finalAmount: result,
-      totalInterest: result - numericValues.principal!,
-      yearlyBreakdown: [],
-      formula: getFormula(numericValues.frequency, solveFor)
-    });
+    // Save calculation to history (the result is still shown if saving fails)
+    const finalAmount = solveFor === 'finalAmount' ? result : numericValues.finalAmount;
+    try {
+      await saveCalculation(params, solveFor === 'contribution' || solveFor === 'withdrawal' ? calculateCompoundInterest(params) : {
+        finalAmount,
+        totalInterest: finalAmount - params.principal,
+        totalContributions: 0,
+        yearlyBreakdown: [],
+        formula: getFormula(numericValues.frequency, solveFor)
+      });
+    } catch (error) {
+      console.error('Failed to save calculation:', error);
+    }
 
     // Show result
     toast({
@@ -288,9 +454,15 @@ export function MissingValueCalculator({ onCalculate, solveFor, setSolveFor }: M
       time: "",
       timeUnit: "years",
       finalAmount: "",
-      frequency: "annually"
+      frequency: "annually",
+      dayCountMethod: "actual/365",
+      contributionFrequency: "monthly",
+      contributionTiming: "end",
+      withdrawalFrequency: "monthly",
+      withdrawalStartPeriod: "1"
     });
     localStorage.removeItem(STORAGE_KEY);
+    setSolverResult(null);
     toast({
       title: "Fields Reset",
       description: "All fields have been cleared.",
@@ -332,7 +504,7 @@ export function MissingValueCalculator({ onCalculate, solveFor, setSolveFor }: M
                 value={values.principal}
                 onChange={handleChange}
                 className="finance-input"
-                placeholder="Enter principal"
+                placeholder={solveFor === 'contribution' ? "Optional (0 if starting from nothing)" : "Enter principal"}
                 disabled={solveFor === 'principal'}
               />
             </div>
@@ -382,7 +554,7 @@ export function MissingValueCalculator({ onCalculate, solveFor, setSolveFor }: M
               </div>
             </div>
             <div className="space-y-2">
-              <Label htmlFor="finalAmount">Compound Interest (CI)</Label>
+              <Label htmlFor="finalAmount">{solveFor === 'withdrawal' ? 'Remaining Balance at Maturity (₱)' : solveFor === 'contribution' ? 'Target Amount (₱)' : 'Compound Interest (CI)'}</Label>
               <Input
                 id="finalAmount"
                 name="finalAmount"
@@ -392,9 +564,83 @@ export function MissingValueCalculator({ onCalculate, solveFor, setSolveFor }: M
                 value={values.finalAmount}
                 onChange={handleChange}
                 className="finance-input"
-                placeholder="Enter compound interest"
+                placeholder={solveFor === 'withdrawal' ? "0 to draw the balance down fully" : "Enter compound interest"}
+                disabled={solveFor === 'finalAmount'}
               />
             </div>
+            {solveFor === 'contribution' && (
+              <div className="space-y-2">
+                <Label htmlFor="contributionFrequency">Contribution Schedule</Label>
+                <div className="flex gap-2">
+                  <Select 
+                    value={values.contributionFrequency || 'monthly'} 
+                    onValueChange={handleContributionFrequencyChange}
+                  >
+                    <SelectTrigger id="contributionFrequency">
+                      <SelectValue placeholder="Select frequency" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="annually">Annually</SelectItem>
+                      <SelectItem value="semi-annually">Semi-Annually</SelectItem>
+                      <SelectItem value="quarterly">Quarterly</SelectItem>
+                      <SelectItem value="monthly">Monthly</SelectItem>
+                      <SelectItem value="weekly">Weekly</SelectItem>
+                      <SelectItem value="daily">Daily</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Select 
+                    value={values.contributionTiming || 'end'} 
+                    onValueChange={handleContributionTimingChange}
+                  >
+                    <SelectTrigger className="w-[140px]">
+                      <SelectValue placeholder="Select timing" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="beginning">Beginning</SelectItem>
+                      <SelectItem value="end">End</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Assumes no withdrawals during the term. Use the main calculator to model deposits and withdrawals together.
+                </p>
+              </div>
+            )}
+            {solveFor === 'withdrawal' && (
+              <div className="space-y-2">
+                <Label htmlFor="withdrawalFrequency">Withdrawal Schedule</Label>
+                <div className="flex gap-2">
+                  <Select 
+                    value={values.withdrawalFrequency || 'monthly'} 
+                    onValueChange={handleWithdrawalFrequencyChange}
+                  >
+                    <SelectTrigger id="withdrawalFrequency">
+                      <SelectValue placeholder="Select frequency" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="annually">Annually</SelectItem>
+                      <SelectItem value="semi-annually">Semi-Annually</SelectItem>
+                      <SelectItem value="quarterly">Quarterly</SelectItem>
+                      <SelectItem value="monthly">Monthly</SelectItem>
+                      <SelectItem value="weekly">Weekly</SelectItem>
+                      <SelectItem value="daily">Daily</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    id="withdrawalStartPeriod"
+                    name="withdrawalStartPeriod"
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={values.withdrawalStartPeriod ?? '1'}
+                    onChange={handleChange}
+                    className="finance-input w-[100px]"
+                    aria-label="Start at period"
+                    title="Start at period"
+                  />
+                </div>
+              </div>
+            )}
             <div className="space-y-2">
               <Label htmlFor="frequency">Compounding Frequency</Label>
               <Select 
@@ -411,6 +657,24 @@ export function MissingValueCalculator({ onCalculate, solveFor, setSolveFor }: M
                   <SelectItem value="monthly">Monthly</SelectItem>
                   <SelectItem value="weekly">Weekly</SelectItem>
                   <SelectItem value="daily">Daily</SelectItem>
+                  <SelectItem value="continuously">Continuously</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dayCountMethod">Day-Count Convention</Label>
+              <Select 
+                value={values.dayCountMethod || 'actual/365'} 
+                onValueChange={handleDayCountChange}
+              >
+                <SelectTrigger id="dayCountMethod">
+                  <SelectValue placeholder="Select convention" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="actual/365">Actual/365</SelectItem>
+                  <SelectItem value="actual/360">Actual/360</SelectItem>
+                  <SelectItem value="30/360">30/360</SelectItem>
+                  <SelectItem value="actual/actual">Actual/Actual</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -432,6 +696,16 @@ export function MissingValueCalculator({ onCalculate, solveFor, setSolveFor }: M
               Reset All Fields
             </Button>
           </div>
+          {solverResult && (
+            <Alert variant={solverResult.status === 'converged' ? 'default' : 'destructive'}>
+              <AlertTitle>{SOLVE_STATUS_LABELS[solverResult.status]}</AlertTitle>
+              <AlertDescription>
+                {solverResult.status === 'converged'
+                  ? `Converged in ${solverResult.iterations} iteration${solverResult.iterations === 1 ? '' : 's'}; the final amount is within ${formatCurrency(Math.abs(solverResult.residual))} of the target.`
+                  : `${solverResult.message}${solverResult.iterations > 0 ? ` (${solverResult.iterations} iterations)` : ''}`}
+              </AlertDescription>
+            </Alert>
+          )}
         </form>
       </CardContent>
     </Card>
@@ -0,0 +1,90 @@
+/**
+ * RateConverter Component
+ *
+ * Converts a nominal annual rate from one compounding frequency to another,
+ * including continuous compounding, and shows the effective annual rate
+ * (EAR/APY) both rates share.
+ */
+
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CompoundingFrequency, DayCountMethod } from "@/utils/calculatorUtils";
+import { FREQUENCY_LABELS, convertNominalRate, getEffectiveAnnualRate } from "@/utils/rateUtils";
+
+/**
+ * Props interface for the RateConverter component
+ * @property initialRate - Nominal rate to start from (as percentage)
+ * @property initialFrequency - Compounding frequency of the starting rate
+ * @property dayCountMethod - Day-count convention (sets the length of a daily year)
+ */
+interface RateConverterProps {
+  initialRate: number;
+  initialFrequency: CompoundingFrequency;
+  dayCountMethod?: DayCountMethod;
+}
+
+export function RateConverter({ initialRate, initialFrequency, dayCountMethod }: RateConverterProps) {
+  const [rate, setRate] = useState<string>(String(initialRate));
+  const [from, setFrom] = useState<CompoundingFrequency>(initialFrequency);
+  const [to, setTo] = useState<CompoundingFrequency>(initialFrequency === 'continuously' ? 'annually' : 'continuously');
+
+  const nominalRate = parseFloat(rate);
+  const isValidRate = !isNaN(nominalRate) && nominalRate >= 0;
+  const convertedRate = isValidRate ? convertNominalRate(nominalRate, from, to, dayCountMethod) : NaN;
+  const effectiveRate = isValidRate ? getEffectiveAnnualRate(nominalRate, from, dayCountMethod) : NaN;
+
+  // Frequency picker shared by the "from" and "to" selects
+  const renderFrequencySelect = (id: string, value: CompoundingFrequency, onChange: (value: CompoundingFrequency) => void) => (
+    <Select value={value} onValueChange={(next) => onChange(next as CompoundingFrequency)}>
+      <SelectTrigger id={id} className="h-10 text-sm sm:text-base">
+        <SelectValue placeholder="Select frequency" />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(FREQUENCY_LABELS) as CompoundingFrequency[]).map(frequency => (
+          <SelectItem key={frequency} value={frequency}>{FREQUENCY_LABELS[frequency]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="converterRate" className="text-sm sm:text-base">Nominal Rate (%)</Label>
+          <Input
+            id="converterRate"
+            type="number"
+            min="0"
+            step="0.01"
+            value={rate}
+            onChange={(e) => setRate(e.target.value)}
+            className="finance-input h-10 text-sm sm:text-base"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="converterFrom" className="text-sm sm:text-base">Compounded</Label>
+          {renderFrequencySelect('converterFrom', from, setFrom)}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="converterTo" className="text-sm sm:text-base">Convert To</Label>
+          {renderFrequencySelect('converterTo', to, setTo)}
+        </div>
+      </div>
+      {isValidRate && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="bg-muted p-3 sm:p-4 rounded-lg">
+            <h3 className="text-base sm:text-lg font-medium text-muted-foreground">Equivalent Rate ({FREQUENCY_LABELS[to]})</h3>
+            <p className="text-xl sm:text-2xl font-bold">{convertedRate.toFixed(4)}%</p>
+          </div>
+          <div className="bg-muted p-3 sm:p-4 rounded-lg">
+            <h3 className="text-base sm:text-lg font-medium text-muted-foreground">Effective Annual Rate (APY)</h3>
+            <p className="text-xl sm:text-2xl font-bold">{effectiveRate.toFixed(4)}%</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
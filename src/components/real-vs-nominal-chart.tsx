@@ -0,0 +1,64 @@
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { YearlyBreakdown, formatCurrency } from "@/utils/calculatorUtils";
+
+/**
+ * Props interface for the RealVsNominalChart component
+ * @property principal - Opening balance, plotted as period 0
+ * @property breakdown - Period-by-period rows that include real (inflation-adjusted) amounts
+ */
+interface RealVsNominalChartProps {
+  principal: number;
+  breakdown: YearlyBreakdown[];
+}
+
+// Series colours and labels for the chart
+const chartConfig = {
+  nominal: {
+    label: "Nominal",
+    color: "hsl(var(--primary))",
+  },
+  real: {
+    label: "Real (today's pesos)",
+    color: "hsl(var(--muted-foreground))",
+  },
+} satisfies ChartConfig;
+
+/**
+ * RealVsNominalChart Component
+ * 
+ * Plots the nominal balance against its value in today's pesos,
+ * showing how much of the growth inflation takes away.
+ */
+export function RealVsNominalChart({ principal, breakdown }: RealVsNominalChartProps) {
+  const data = [
+    { period: 0, nominal: principal, real: principal },
+    ...breakdown.map(row => ({ period: row.year, nominal: row.amount, real: row.realAmount }))
+  ];
+
+  return (
+    <ChartContainer config={chartConfig} className="h-[250px] sm:h-[300px] w-full aspect-auto">
+      <LineChart data={data} margin={{ left: 12, right: 12 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="period" tickLine={false} axisLine={false} />
+        <YAxis tickLine={false} axisLine={false} width={80} tickFormatter={(value: number) => formatCurrency(value).replace(/\.\d+$/, '')} />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) => `Period ${payload?.[0]?.payload?.period ?? ''}`}
+              formatter={(value, name) => (
+                <div className="flex w-full justify-between gap-4">
+                  <span className="text-muted-foreground">{chartConfig[name as keyof typeof chartConfig]?.label ?? name}</span>
+                  <span className="font-mono font-medium tabular-nums">{formatCurrency(Number(value))}</span>
+                </div>
+              )}
+            />
+          }
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Line dataKey="nominal" type="monotone" stroke="var(--color-nominal)" strokeWidth={2} dot={false} />
+        <Line dataKey="real" type="monotone" stroke="var(--color-real)" strokeWidth={2} strokeDasharray="4 4" dot={false} />
+      </LineChart>
+    </ChartContainer>
+  );
+}
@@ -1,10 +1,13 @@
 /**
  * ResultsDisplay Component
  * 
- * Displays the results of compound interest calculations in three tabs:
+ * Displays the results of compound interest calculations in five tabs:
  * 1. Summary - Shows key numbers like principal, final amount, and interest earned
- * 2. Table - Detailed breakdown of the investment growth over time
- * 3. Formula - Shows the mathematical formula used and step-by-step calculations
+ * 2. Table - Detailed breakdown of the investment growth over time, per period
+ *    or rolled up by month, quarter or year with drill-down to the periods
+ * 3. Chart - Balance over time, principal vs interest, and interest per period
+ * 4. Formula - Shows the mathematical formula used and step-by-step calculations
+ * 5. Rates - Compares compounding frequencies and converts between them
  * 
  * Table Calculation Formula:
  * For each period (payment number):
@@ -18,7 +21,10 @@
  * 2. Interest Earned = Current Balance - Previous Balance
  *    (For first period, Previous Balance = Principal)
  * 
- * 3. Total Interest = Current Balance - Principal
+ * 3. Total Interest = Current Balance - Principal - Contributions to date
+ * 
+ * When a periodic contribution (PMT) is set, each deposit is added in the
+ * period it falls due and compounds from its deposit date onwards.
  * 
  * Example for monthly compounding (n=12):
  * - Period 1: Balance = P(1 + r/12)^(12 × 1/12)
@@ -26,173 +32,71 @@
  * - Period 3: Balance = P(1 + r/12)^(12 × 3/12)
  * And so on...
  * 
+ * With an inflation rate, each row also shows its value in today's pesos
+ * (Balance / (1 + inflation)^t), and the Summary tab adds the real final
+ * amount, the real rate by the Fisher equation and a real-vs-nominal chart.
+ * 
+ * When interest is taxed, the final amount is after tax withheld; the Summary
+ * tab splits gross interest into tax withheld and net interest, and the table
+ * shows the tax withheld in each period.
+ * 
+ * With scheduled withdrawals, the Summary tab shows the total withdrawn and
+ * whether (and when) the balance runs out, and the table adds a Withdrawal column.
+ * 
+ * The Rates tab compares the same nominal rate compounded at each of the six
+ * frequencies (periodic rate, effective annual rate and final amount) and
+ * includes a converter between frequencies, including continuous compounding.
+ * 
+ * With a rate schedule, each period earns the rate in force during it and the
+ * Formula tab shows the piecewise product of each stretch's growth factor.
+ * 
+ * Terms that don't divide evenly into compounding periods get a stub row for
+ * the partial period, at the front or back of the schedule, so the last row
+ * always equals the final amount.
+ * 
  * Features:
  * - Responsive design for different screen sizes
  * - Dynamic formula display based on what was calculated
  * - Detailed breakdown table with optional date column
  * - Step-by-step calculation explanation
+ * - Export of the schedule to CSV or Excel, and a printable PDF report
  */
 
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { CalculationParams, CalculationResult, calculateCompoundInterest, formatCurrency } from "@/utils/calculatorUtils";
+import { RealVsNominalChart } from "@/components/real-vs-nominal-chart";
+import { GrowthCharts } from "@/components/growth-charts";
+import { BreakdownTable } from "@/components/breakdown-table";
+import { ExportMenu } from "@/components/export-menu";
+import { RateConverter } from "@/components/rate-converter";
+import { getFormulaForSolveFor, getFrequencyNumber, getStepByStepCalculation } from "@/components/calculation-steps";
+import { CalculationParams, CalculationResult, DayCountMethod, calculateCompoundInterest, formatCurrency, getFrequencyValue, getTaxRate } from "@/utils/calculatorUtils";
+import { COMPARISON_FREQUENCIES, FREQUENCY_LABELS, getEffectiveAnnualRate, getPeriodicRate } from "@/utils/rateUtils";
 
 /**
  * Props interface for the ResultsDisplay component
  * @property params - The calculation parameters used to generate results
  * @property solveFor - Optional parameter indicating which value was solved for
+ * @property onPin - Optional callback to pin these results for scenario comparison
+ * @property onShare - Optional callback to copy a shareable link to these results
  */
 interface ResultsDisplayProps {
   params: CalculationParams | null;
-  solveFor?: 'principal' | 'rate' | 'time' | 'finalAmount';
+  solveFor?: 'principal' | 'rate' | 'time' | 'finalAmount' | 'contribution' | 'withdrawal';
+  onPin?: () => void;
+  onShare?: () => void;
 }
 
-/**
- * Returns the appropriate formula string based on what we're solving for
- * @param solveFor - The value being solved for
- * @param frequency - The compounding frequency
- * @returns The formula string to display (as JSX)
- */
-function getFormulaForSolveFor(solveFor: string | undefined, frequency: string): React.ReactNode {
-  switch (solveFor) {
-    // Formula for Principal
-    case 'principal':
-      return (
-        <>
-          P = <span>CI / (1 + r/n)<sup>nt</sup></span>
-        </>
-      );
-    // Formula for Future Value (CI)
-    case 'finalAmount':
-      return (
-        <>
-          CI = <span>P(1 + r/n)<sup>nt</sup></span>
-        </>
-      );
-    // Formula for Rate
-    case 'rate':
-      return (
-        <>
-          r = <span>n((CI/P)<sup>1/nt</sup> - 1)</span>
-        </>
-      );
-    // Formula for Time
-    case 'time':
-      return (
-        <>
-          t = <span>ln(CI/P) / (n × ln(1 + r/n))</span>
-        </>
-      );
-    // Default: Compound Interest (CI)
-    default:
-      return (
-        <>
-          CI = <span>P(1 + r/n)<sup>nt</sup> - P</span>
-        </>
-      );
-  }
-}
-
-/**
- * Generates step-by-step calculation explanation
- * @param params - The calculation parameters
- * @param solveFor - The value being solved for
- * @returns Array of calculation steps with formatted values
- */
-function getStepByStepCalculation(params: CalculationParams, solveFor: string | undefined): React.ReactNode[] {
-  const { principal, rate, time, frequency } = params;
-  const rateDecimal = rate / 100;
-  const n = getFrequencyNumber(frequency);
-  const finalAmount = params.targetAmount || calculateCompoundInterest(params).finalAmount;
-  const nValue = Number(n);
-
-  // Generate appropriate steps based on what we're solving for
-  switch (solveFor) {
-    case 'principal':
-      return [
-        <><b>P = CI / (1 + r/n)<sup>nt</sup></b></>,
-        <>
-          P = {formatCurrency(finalAmount)} / (1 + {rateDecimal.toFixed(4)}/{nValue})<sup>{nValue}×{time}</sup>
-        </>,
-        <>
-          P = {formatCurrency(finalAmount)} / ({(1 + rateDecimal/nValue).toFixed(4)})<sup>{nValue * time}</sup>
-        </>,
-        <>
-          P = {formatCurrency(finalAmount)} / {Math.pow(1 + rateDecimal/nValue, nValue * time).toFixed(4)}
-        </>,
-        <>
-          P = {formatCurrency(principal)}
-        </>
-      ];
-    case 'finalAmount':
-      return [
-        <><b>CI = P(1 + r/n)<sup>nt</sup></b></>,
-        <>
-          CI = {formatCurrency(principal)}(1 + {rateDecimal.toFixed(4)}/{nValue})<sup>{nValue}×{time}</sup>
-        </>,
-        <>
-          CI = {formatCurrency(principal)}({(1 + rateDecimal/nValue).toFixed(4)})<sup>{nValue * time}</sup>
-        </>,
-        <>
-          CI = {formatCurrency(principal)} × {Math.pow(1 + rateDecimal/nValue, nValue * time).toFixed(4)}
-        </>,
-        <>
-          CI = {formatCurrency(finalAmount)}
-        </>
-      ];
-    case 'rate':
-      return [
-        <><b>r = n((CI/P)<sup>1/nt</sup> - 1)</b></>,
-        <>
-          r = {nValue}(( {formatCurrency(finalAmount)}/{formatCurrency(principal)} )<sup>1/({nValue}×{time})</sup> - 1)
-        </>,
-        <>
-          r = {nValue}(( {(finalAmount/principal).toFixed(4)} )<sup>1/{nValue * time}</sup> - 1)
-        </>,
-        <>
-          r = {nValue}({Math.pow(finalAmount/principal, 1/(nValue * time)).toFixed(4)} - 1)
-        </>,
-        <>
-          r = {(rateDecimal * 100).toFixed(2)}%
-        </>
-      ];
-    case 'time':
-      return [
-        <><b>t = ln(CI/P) / (n × ln(1 + r/n))</b></>,
-        <>
-          t = ln({formatCurrency(finalAmount)}/{formatCurrency(principal)}) / ({nValue} × ln(1 + {rateDecimal.toFixed(4)}/{nValue}))
-        </>,
-        <>
-          t = {Math.log(finalAmount/principal).toFixed(4)} / ({nValue} × {Math.log(1 + rateDecimal/nValue).toFixed(4)})
-        </>,
-        <>
-          t = {Math.log(finalAmount/principal).toFixed(4)} / {(nValue * Math.log(1 + rateDecimal/nValue)).toFixed(4)}
-        </>,
-        <>
-          t = {time} years
-        </>
-      ];
-    default:
-      const compoundInterest = finalAmount - principal;
-      return [
-        <><b>CI = P(1 + r/n)<sup>nt</sup> - P</b></>,
-        <>
-          CI = {formatCurrency(principal)}(1 + {rateDecimal.toFixed(4)}/{nValue})<sup>{nValue}×{time}</sup> - {formatCurrency(principal)}
-        </>,
-        <>
-          CI = {formatCurrency(principal)}({(1 + rateDecimal/nValue).toFixed(4)})<sup>{nValue * time}</sup> - {formatCurrency(principal)}
-        </>,
-        <>
-          CI = {formatCurrency(finalAmount)} - {formatCurrency(principal)}
-        </>,
-        <>
-          CI = {formatCurrency(compoundInterest)}
-        </>
-      ];
-  }
-}
+// Display names for day-count conventions
+const DAY_COUNT_LABELS: Record<DayCountMethod, string> = {
+  'actual/365': 'Actual/365',
+  'actual/360': 'Actual/360',
+  '30/360': '30/360',
+  'actual/actual': 'Actual/Actual'
+};
 
 /**
  * ResultsDisplay Component
@@ -202,7 +106,7 @@ function getStepByStepCalculation(params: CalculationParams, solveFor: string |
  * 2. Year by Year - Detailed breakdown
  * 3. Formula - How it was calculated
  */
-export function ResultsDisplay({ params, solveFor }: ResultsDisplayProps) {
+export function ResultsDisplay({ params, solveFor, onPin, onShare }: ResultsDisplayProps) {
   // Track results and validation
   const [result, setResult] = useState<CalculationResult | null>(null);
   const [isValid, setIsValid] = useState(false);
@@ -231,10 +135,24 @@ export function ResultsDisplay({ params, solveFor }: ResultsDisplayProps) {
     }
   }, [params]);
 
+  // Final amount under each compounding frequency for the Rates tab, worked out once per calculation
+  const comparisonAmounts = useMemo(() => {
+    if (!isValid || !displayParams) return null;
+    return new Map(COMPARISON_FREQUENCIES.map(frequency =>
+      [frequency, calculateCompoundInterest({ ...displayParams, frequency }).finalAmount]
+    ));
+  }, [displayParams, isValid]);
+
   if (!result || !displayParams) {
     return null;
   }
 
+  const hasContributions = result.totalContributions > 0;
+  const hasRateSchedule = displayParams.rateSchedule?.length > 0;
+  const hasInflation = result.realFinalAmount !== undefined;
+  const hasTax = result.totalTax !== undefined;
+  const hasWithdrawals = result.totalWithdrawals !== undefined;
+
   if (isLoading) {
     return (
       <Card className="w-full">
@@ -249,8 +167,21 @@ export function ResultsDisplay({ params, solveFor }: ResultsDisplayProps) {
 
   return (
     <Card className="w-full">
-      <CardHeader className="px-4 sm:px-6">
+      <CardHeader className="flex flex-row items-center justify-between gap-4 px-4 sm:px-6">
         <CardTitle className="text-xl sm:text-2xl">Calculation Results</CardTitle>
+        <div className="flex gap-2">
+          <ExportMenu params={displayParams} result={result} solveFor={solveFor} />
+          {onShare && (
+            <Button variant="outline" size="sm" onClick={onShare} className="text-xs sm:text-sm">
+              Share Link
+            </Button>
+          )}
+          {onPin && (
+            <Button variant="outline" size="sm" onClick={onPin} className="text-xs sm:text-sm">
+              Pin for Comparison
+            </Button>
+          )}
+        </div>
       </CardHeader>
       <CardContent className="px-4 sm:px-6">
         {/* Results Tabs */}
@@ -259,7 +190,9 @@ export function ResultsDisplay({ params, solveFor }: ResultsDisplayProps) {
           <TabsList className="mb-4 w-full sm:w-auto flex flex-col sm:flex-row gap-2 sm:gap-1">
             <TabsTrigger value="summary" className="flex-1 sm:flex-none text-xs sm:text-sm py-2 sm:py-1.5">Summary</TabsTrigger>
             <TabsTrigger value="breakdown" className="flex-1 sm:flex-none text-xs sm:text-sm py-2 sm:py-1.5">Table</TabsTrigger>
+            <TabsTrigger value="chart" className="flex-1 sm:flex-none text-xs sm:text-sm py-2 sm:py-1.5">Chart</TabsTrigger>
             <TabsTrigger value="formula" className="flex-1 sm:flex-none text-xs sm:text-sm py-2 sm:py-1.5">Formula</TabsTrigger>
+            <TabsTrigger value="rates" className="flex-1 sm:flex-none text-xs sm:text-sm py-2 sm:py-1.5">Rates</TabsTrigger>
           </TabsList>
           
           {/* Summary Tab */}
@@ -272,22 +205,99 @@ export function ResultsDisplay({ params, solveFor }: ResultsDisplayProps) {
               </div>
               {/* Final Amount */}
               <div className="bg-muted p-3 sm:p-4 rounded-lg">
-                <h3 className="text-base sm:text-lg font-medium text-muted-foreground">Final Amount</h3>
+                <h3 className="text-base sm:text-lg font-medium text-muted-foreground">{hasTax ? 'Final Amount (After Tax)' : 'Final Amount'}</h3>
                 <p className="text-xl sm:text-2xl font-bold">{formatCurrency(result.finalAmount)}</p>
               </div>
+              {/* Total Contributions */}
+              {result.totalContributions > 0 && (
+                <div className="bg-muted p-3 sm:p-4 rounded-lg">
+                  <h3 className="text-base sm:text-lg font-medium text-muted-foreground">Total Contributions</h3>
+                  <p className="text-xl sm:text-2xl font-bold">{formatCurrency(result.totalContributions)}</p>
+                </div>
+              )}
+              {/* Total Withdrawals and Depletion */}
+              {hasWithdrawals && (
+                <>
+                  <div className="bg-muted p-3 sm:p-4 rounded-lg">
+                    <h3 className="text-base sm:text-lg font-medium text-muted-foreground">Total Withdrawals</h3>
+                    <p className="text-xl sm:text-2xl font-bold">{formatCurrency(result.totalWithdrawals)}</p>
+                  </div>
+                  <div className="bg-muted p-3 sm:p-4 rounded-lg">
+                    <h3 className="text-base sm:text-lg font-medium text-muted-foreground">Balance Runs Out</h3>
+                    <p className="text-xl sm:text-2xl font-bold">
+                      {result.depletionPeriod !== undefined
+                        ? `Period ${result.depletionPeriod}${result.depletionDate ? ` (${result.depletionDate})` : ''}`
+                        : 'Never'}
+                    </p>
+                    {result.depletionPeriod === undefined && (
+                      <p className="text-xs sm:text-sm text-muted-foreground">The balance lasts the full term</p>
+                    )}
+                  </div>
+                </>
+              )}
               {/* Total Interest */}
               <div className="bg-muted p-3 sm:p-4 rounded-lg">
-                <h3 className="text-base sm:text-lg font-medium text-muted-foreground">Total Interest Earned</h3>
+                <h3 className="text-base sm:text-lg font-medium text-muted-foreground">{hasTax ? 'Gross Interest Earned' : 'Total Interest Earned'}</h3>
                 <p className="text-xl sm:text-2xl font-bold">{formatCurrency(result.totalInterest)}</p>
               </div>
+              {/* Tax Withheld and Net Interest */}
+              {hasTax && (
+                <>
+                  <div className="bg-muted p-3 sm:p-4 rounded-lg">
+                    <h3 className="text-base sm:text-lg font-medium text-muted-foreground">Tax Withheld</h3>
+                    <p className="text-xl sm:text-2xl font-bold">{formatCurrency(result.totalTax)}</p>
+                    <p className="text-xs sm:text-sm text-muted-foreground">
+                      {getTaxRate(displayParams)}% {displayParams.taxWithholding === 'per-period' ? 'withheld each period' : 'withheld at maturity'}
+                    </p>
+                  </div>
+                  <div className="bg-muted p-3 sm:p-4 rounded-lg">
+                    <h3 className="text-base sm:text-lg font-medium text-muted-foreground">Net Interest Earned</h3>
+                    <p className="text-xl sm:text-2xl font-bold">{formatCurrency(result.netInterest)}</p>
+                  </div>
+                </>
+              )}
+              {/* Effective Annual Rate */}
+              <div className="bg-muted p-3 sm:p-4 rounded-lg">
+                <h3 className="text-base sm:text-lg font-medium text-muted-foreground">Effective Annual Rate (APY)</h3>
+                <p className="text-xl sm:text-2xl font-bold">{getEffectiveAnnualRate(displayParams.rate, displayParams.frequency, displayParams.dayCountMethod).toFixed(4)}%</p>
+                <p className="text-xs sm:text-sm text-muted-foreground">
+                  {displayParams.rate}% nominal, compounded {displayParams.frequency}
+                </p>
+              </div>
               {/* Interest Ratio */}
               <div className="bg-muted p-3 sm:p-4 rounded-lg">
                 <h3 className="text-base sm:text-lg font-medium text-muted-foreground">Interest to Principal Ratio</h3>
                 <p className="text-xl sm:text-2xl font-bold">
-                  {(result.totalInterest / displayParams.principal * 100).toFixed(2)}%
+                  {/* Nothing was put in (e.g. a solved zero principal), so there's no ratio to show */}
+                  {displayParams.principal + result.totalContributions > 0
+                    ? `${((hasTax ? result.netInterest : result.totalInterest) / (displayParams.principal + result.totalContributions) * 100).toFixed(2)}%`
+                    : '—'}
                 </p>
               </div>
+              {/* Real (Inflation-Adjusted) Values */}
+              {hasInflation && (
+                <>
+                  <div className="bg-muted p-3 sm:p-4 rounded-lg">
+                    <h3 className="text-base sm:text-lg font-medium text-muted-foreground">Real Final Amount (Today's Pesos)</h3>
+                    <p className="text-xl sm:text-2xl font-bold">{formatCurrency(result.realFinalAmount)}</p>
+                  </div>
+                  <div className="bg-muted p-3 sm:p-4 rounded-lg">
+                    <h3 className="text-base sm:text-lg font-medium text-muted-foreground">Real Rate of Return</h3>
+                    <p className="text-xl sm:text-2xl font-bold">{result.realRate.toFixed(2)}%</p>
+                    <p className="text-xs sm:text-sm text-muted-foreground">
+                      (1 + nominal) / (1 + {displayParams.inflationRate}% inflation) - 1
+                    </p>
+                  </div>
+                </>
+              )}
             </div>
+            {/* Real vs Nominal Chart */}
+            {hasInflation && (
+              <div className="rounded-md border p-3 sm:p-4">
+                <h3 className="text-base sm:text-lg font-medium mb-2">Real vs Nominal Growth</h3>
+                <RealVsNominalChart principal={displayParams.principal} breakdown={result.yearlyBreakdown} />
+              </div>
+            )}
             {/* Validation Message */}
             {!isValid && (
               <div className="text-xs sm:text-sm text-muted-foreground mt-2">
@@ -298,43 +308,12 @@ export function ResultsDisplay({ params, solveFor }: ResultsDisplayProps) {
 
           {/* Table Tab - Shows detailed breakdown */}
           <TabsContent value="breakdown">
-            <div className="rounded-md border overflow-x-auto">
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead className="whitespace-nowrap">Payment Number</TableHead>
-                    {displayParams.startDate && <TableHead className="whitespace-nowrap">Date</TableHead>}
-                    <TableHead className="whitespace-nowrap">Balance</TableHead>
-                    <TableHead className="whitespace-nowrap">Interest Earned</TableHead>
-                    <TableHead className="whitespace-nowrap">Total Interest</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {/* Initial row for period 0 */}
-                  <TableRow key={0}>
-                    <TableCell className="whitespace-nowrap">0</TableCell>
-                    {displayParams.startDate && <TableCell className="whitespace-nowrap">{displayParams.startDate instanceof Date ? displayParams.startDate.toISOString().split('T')[0] : ''}</TableCell>}
-                    <TableCell className="whitespace-nowrap">{formatCurrency(displayParams.principal)}</TableCell>
-                    <TableCell className="whitespace-nowrap">{formatCurrency(0)}</TableCell>
-                    <TableCell className="whitespace-nowrap">{formatCurrency(0)}</TableCell>
-                  </TableRow>
-                  {/* Actual breakdown rows */}
-                  {result.yearlyBreakdown.map((row) => {
-                    // Calculate total interest earned up to this point
-                    const totalInterestToDate = row.amount - displayParams.principal;
-                    return (
-                      <TableRow key={row.year}>
-                        <TableCell className="whitespace-nowrap">{row.year}</TableCell>
-                        {displayParams.startDate && <TableCell className="whitespace-nowrap">{row.date}</TableCell>}
-                        <TableCell className="whitespace-nowrap">{formatCurrency(row.amount)}</TableCell>
-                        <TableCell className="whitespace-nowrap">{formatCurrency(row.interestEarned)}</TableCell>
-                        <TableCell className="whitespace-nowrap">{formatCurrency(totalInterestToDate)}</TableCell>
-                      </TableRow>
-                    );
-                  })}
-                </TableBody>
-              </Table>
-            </div>
+            <BreakdownTable params={displayParams} result={result} />
+          </TabsContent>
+
+          {/* Chart Tab - Plots the breakdown */}
+          <TabsContent value="chart">
+            <GrowthCharts principal={displayParams.principal} breakdown={result.yearlyBreakdown} startDate={displayParams.startDate} />
           </TabsContent>
 
           {/* Formula Tab */}
@@ -342,17 +321,40 @@ export function ResultsDisplay({ params, solveFor }: ResultsDisplayProps) {
             <div className="bg-muted p-4 sm:p-6 rounded-lg">
               {/* Formula Display */}
               <h3 className="text-base sm:text-lg font-medium mb-2">Formula Used:</h3>
-              <p className="text-base sm:text-xl font-mono break-all">{getFormulaForSolveFor(solveFor, displayParams.frequency)}</p>
+              <p className="text-base sm:text-xl font-mono break-all">{getFormulaForSolveFor(solveFor, displayParams.frequency, hasContributions, hasRateSchedule)}</p>
               
               {/* Variable Definitions */}
               <div className="mt-4 space-y-2 text-sm sm:text-base">
                 <p><strong>Where:</strong></p>
                 <p>CI = Compound Interest ({solveFor === 'finalAmount' || solveFor === undefined ? '?' : formatCurrency(result.finalAmount)})</p>
                 <p>P = Principal ({solveFor === 'principal' ? '?' : formatCurrency(displayParams.principal)})</p>
-                <p>r = Annual interest rate ({solveFor === 'rate' ? '?' : displayParams.rate}%)</p>
-                <p>t = Time period ({solveFor === 'time' ? '?' : displayParams.time} years)</p>
-                {displayParams.frequency !== 'continuously' && (
-                  <p>n = Number of times compounded per year ({getFrequencyNumber(displayParams.frequency)})</p>
+                <p>r = Annual interest rate ({solveFor === 'rate' ? '?' : displayParams.rate}%{hasRateSchedule && [...displayParams.rateSchedule]
+                  .sort((a, b) => a.fromYear - b.fromYear)
+                  .map(change => `, then ${change.rate}% from year ${change.fromYear}`)
+                  .join('')})</p>
+                <p>t = Time period ({solveFor === 'time' ? '?' : displayParams.time} {displayParams.timeUnit === 'days' ? 'days' : 'years'})</p>
+                {displayParams.startDate && displayParams.endDate && (
+                  <p>Date range: {displayParams.startDate.toISOString().split('T')[0]} to {displayParams.endDate.toISOString().split('T')[0]}</p>
+                )}
+                {(displayParams.timeUnit === 'days' || displayParams.startDate) && (
+                  <p>Day-count convention: {DAY_COUNT_LABELS[displayParams.dayCountMethod || 'actual/365']}</p>
+                )}
+                {hasContributions && (
+                  <>
+                    <p>PMT = Periodic contribution ({solveFor === 'contribution' ? '?' : formatCurrency(displayParams.contribution)}, made at the {displayParams.contributionTiming === 'beginning' ? 'beginning' : 'end'} of each period)</p>
+                    <p>m = Number of contributions per year ({getFrequencyValue(displayParams.contributionFrequency || 'monthly', displayParams.dayCountMethod)})</p>
+                  </>
+                )}
+                {hasWithdrawals && (
+                  <p>Withdrawals: {displayParams.withdrawalType === 'percentage' ? `${displayParams.withdrawal}% of the balance` : formatCurrency(displayParams.withdrawal)} {displayParams.withdrawalFrequency || 'monthly'} from period {displayParams.withdrawalStartPeriod || 1}, simulated period by period</p>
+                )}
+                {hasTax && (
+                  <p>Tax on interest: {getTaxRate(displayParams)}% {displayParams.taxWithholding === 'per-period' ? 'withheld from each period\'s interest, so only net interest compounds' : 'withheld from total interest at maturity'} ({formatCurrency(result.totalTax)} withheld, {formatCurrency(result.finalAmount)} after tax)</p>
+                )}
+                {displayParams.frequency !== 'continuously' ? (
+                  <p>n = Number of times compounded per year ({getFrequencyNumber(displayParams.frequency, displayParams.dayCountMethod)})</p>
+                ) : (
+                  <p>e = Euler's number (≈ 2.71828), compounded continuously</p>
                 )}
               </div>
 
@@ -362,32 +364,56 @@ export function ResultsDisplay({ params, solveFor }: ResultsDisplayProps) {
                 <div className="space-y-2">
                   {getStepByStepCalculation(displayParams, solveFor).map((step, index) => (
                     <p key={index} className="font-mono text-sm sm:text-base break-all">
-                      {index === 0 ? 'Step 1: ' : index === 1 ? 'Step 2: ' : index === 2 ? 'Step 3: ' : index === 3 ? 'Step 4: ' : 'Step 5: '}{step}
+                      Step {index + 1}: {step}
                     </p>
                   ))}
                 </div>
               </div>
             </div>
           </TabsContent>
+
+          {/* Rates Tab - Same nominal rate under each compounding frequency */}
+          <TabsContent value="rates" className="space-y-4">
+            <div className="rounded-md border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="whitespace-nowrap">Compounding</TableHead>
+                    <TableHead className="whitespace-nowrap">Periods per Year</TableHead>
+                    <TableHead className="whitespace-nowrap">Rate per Period</TableHead>
+                    <TableHead className="whitespace-nowrap">Effective Annual Rate (APY)</TableHead>
+                    <TableHead className="whitespace-nowrap">Final Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {COMPARISON_FREQUENCIES.map(frequency => (
+                    <TableRow key={frequency} className={frequency === displayParams.frequency ? 'bg-muted font-medium' : undefined}>
+                      <TableCell className="whitespace-nowrap">{FREQUENCY_LABELS[frequency]}</TableCell>
+                      <TableCell className="whitespace-nowrap">{getFrequencyValue(frequency, displayParams.dayCountMethod)}</TableCell>
+                      <TableCell className="whitespace-nowrap">{getPeriodicRate(displayParams.rate, frequency, displayParams.dayCountMethod).toFixed(6)}%</TableCell>
+                      <TableCell className="whitespace-nowrap">{getEffectiveAnnualRate(displayParams.rate, frequency, displayParams.dayCountMethod).toFixed(4)}%</TableCell>
+                      <TableCell className="whitespace-nowrap">{comparisonAmounts ? formatCurrency(comparisonAmounts.get(frequency)) : '—'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <p className="text-xs sm:text-sm text-muted-foreground">
+              EAR = (1 + r/n)<sup>n</sup> - 1, so the same {displayParams.rate}% nominal rate earns more the more often it compounds.
+              {hasRateSchedule && ' Rate changes are applied to the final amounts but not to the rates shown.'}
+            </p>
+            <div className="rounded-md border p-3 sm:p-4">
+              <h3 className="text-base sm:text-lg font-medium mb-2">Rate Converter</h3>
+              <RateConverter
+                key={`${displayParams.rate}-${displayParams.frequency}`}
+                initialRate={displayParams.rate}
+                initialFrequency={displayParams.frequency}
+                dayCountMethod={displayParams.dayCountMethod}
+              />
+            </div>
+          </TabsContent>
         </Tabs>
       </CardContent>
     </Card>
   );
 }
-
-/**
- * Converts compounding frequency to number of compounds per year
- * @param frequency - The compounding frequency
- * @returns Number of times interest is compounded per year
- */
-function getFrequencyNumber(frequency: string): number {
-  switch (frequency) {
-    case 'annually': return 1;
-    case 'semi-annually': return 2;
-    case 'quarterly': return 4;
-    case 'monthly': return 12;
-    case 'weekly': return 52;
-    case 'daily': return 365;
-    default: return 1;
-  }
-}
@@ -0,0 +1,219 @@
+/**
+ * ScenarioComparison Component
+ *
+ * Compares two to five pinned scenarios side by side:
+ * - Summary metrics for each scenario, with a difference column against the
+ *   first scenario (the baseline)
+ * - Overlaid growth curves of each scenario's balance over time
+ *
+ * Scenarios are pinned from the calculator results or from the history list,
+ * and each one is recalculated with calculateCompoundInterest.
+ */
+
+import { Fragment, useMemo } from "react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { CalculationResult, calculateCompoundInterest, formatCurrency, getPeriodsPerYear } from "@/utils/calculatorUtils";
+import { getEffectiveAnnualRate } from "@/utils/rateUtils";
+import { MIN_SCENARIOS, Scenario } from "@/hooks/use-scenarios";
+
+/**
+ * Props interface for the ScenarioComparison component
+ * @property scenarios - The pinned scenarios, the first being the baseline
+ * @property onRemove - Callback to unpin one scenario
+ * @property onClear - Callback to unpin every scenario
+ */
+interface ScenarioComparisonProps {
+  scenarios: Scenario[];
+  onRemove: (id: string) => void;
+  onClear: () => void;
+}
+
+// Line colours for up to five scenarios
+const SCENARIO_COLORS = [
+  'hsl(221 83% 53%)',
+  'hsl(142 71% 45%)',
+  'hsl(25 95% 53%)',
+  'hsl(262 83% 58%)',
+  'hsl(346 77% 50%)'
+];
+
+// A compared metric: how to read it from a result and how to format it
+interface Metric {
+  label: string;
+  getValue: (scenario: Scenario, result: CalculationResult) => number;
+  format: (value: number) => string;
+}
+
+// Metrics shown for every scenario
+const METRICS: Metric[] = [
+  { label: 'Principal', getValue: s => s.params.principal, format: formatCurrency },
+  { label: 'Annual Rate', getValue: s => s.params.rate, format: v => `${v.toFixed(2)}%` },
+  { label: 'Effective Annual Rate', getValue: s => getEffectiveAnnualRate(s.params.rate, s.params.frequency, s.params.dayCountMethod), format: v => `${v.toFixed(4)}%` },
+  { label: 'Total Contributions', getValue: (_, r) => r.totalContributions, format: formatCurrency },
+  { label: 'Total Interest', getValue: (_, r) => r.totalInterest, format: formatCurrency },
+  { label: 'Final Amount', getValue: (_, r) => r.finalAmount, format: formatCurrency }
+];
+
+// Letter used to refer to a scenario (A, B, C, ...)
+const getScenarioKey = (index: number) => String.fromCharCode(65 + index);
+
+// Format a difference against the baseline with an explicit sign
+const formatDifference = (value: number, format: (value: number) => string) => {
+  if (Math.abs(value) < 1e-9) return format(0);
+  return `${value > 0 ? '+' : '-'}${format(Math.abs(value))}`;
+};
+
+export function ScenarioComparison({ scenarios, onRemove, onClear }: ScenarioComparisonProps) {
+  const results = useMemo(
+    () => scenarios.map(scenario => calculateCompoundInterest(scenario.params)),
+    [scenarios]
+  );
+
+  // Chart config keyed by scenario letter
+  const chartConfig = useMemo(() => scenarios.reduce<ChartConfig>((config, scenario, index) => {
+    config[getScenarioKey(index)] = { label: `${getScenarioKey(index)}: ${scenario.label}`, color: SCENARIO_COLORS[index] };
+    return config;
+  }, {}), [scenarios]);
+
+  // Every scenario's balance against elapsed years, merged into one series keyed by
+  // scenario letter so different frequencies share one axis and one tooltip
+  const chartData = useMemo(() => {
+    const points = new Map<number, Record<string, number>>();
+    scenarios.forEach((scenario, index) => {
+      const key = getScenarioKey(index);
+      const periodsPerYear = getPeriodsPerYear(scenario.params.frequency, scenario.params.dayCountMethod);
+      const addPoint = (years: number, balance: number) => {
+        const point = points.get(years) || { years };
+        point[key] = balance;
+        points.set(years, point);
+      };
+      addPoint(0, scenario.params.principal);
+      results[index].yearlyBreakdown.forEach(row => addPoint(Number((row.year / periodsPerYear).toFixed(4)), row.amount));
+    });
+    return [...points.values()].sort((a, b) => a.years - b.years);
+  }, [scenarios, results]);
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 px-4 sm:px-6">
+        <div className="space-y-1.5">
+          <CardTitle className="text-xl sm:text-2xl">Compare Scenarios</CardTitle>
+          <CardDescription className="text-sm sm:text-base">
+            Pin calculations from the calculator results or from your history to compare up to five side by side.
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={onClear} disabled={scenarios.length === 0} className="text-xs sm:text-sm">
+          Clear All
+        </Button>
+      </CardHeader>
+      <CardContent className="px-4 sm:px-6 space-y-6">
+        {/* Pinned Scenarios */}
+        <div className="space-y-2">
+          {scenarios.map((scenario, index) => (
+            <div key={scenario.id} className="flex items-center justify-between gap-2 rounded-md border p-2 sm:p-3">
+              <div className="flex items-center gap-2 text-sm sm:text-base">
+                <span className="inline-block h-3 w-3 shrink-0 rounded-full" style={{ backgroundColor: SCENARIO_COLORS[index] }} />
+                <span className="font-medium">{getScenarioKey(index)}</span>
+                <span className="text-muted-foreground">{scenario.label}</span>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => onRemove(scenario.id)} className="text-xs sm:text-sm">
+                Remove
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        {scenarios.length < MIN_SCENARIOS ? (
+          <p className="text-center text-muted-foreground py-4 sm:py-8 text-sm sm:text-base">
+            Pin at least {MIN_SCENARIOS} scenarios to compare them.
+          </p>
+        ) : (
+          <>
+            {/* Metrics Table with differences against scenario A */}
+            <div className="rounded-md border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="whitespace-nowrap">Metric</TableHead>
+                    {scenarios.map((scenario, index) => (
+                      <Fragment key={scenario.id}>
+                        <TableHead className="whitespace-nowrap">{getScenarioKey(index)}</TableHead>
+                        {index > 0 && (
+                          <TableHead className="whitespace-nowrap">{getScenarioKey(index)} − A</TableHead>
+                        )}
+                      </Fragment>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {METRICS.map(metric => {
+                    const baseline = metric.getValue(scenarios[0], results[0]);
+                    return (
+                      <TableRow key={metric.label}>
+                        <TableCell className="whitespace-nowrap font-medium">{metric.label}</TableCell>
+                        {scenarios.map((scenario, index) => {
+                          const value = metric.getValue(scenario, results[index]);
+                          return (
+                            <Fragment key={scenario.id}>
+                              <TableCell className="whitespace-nowrap">{metric.format(value)}</TableCell>
+                              {index > 0 && (
+                                <TableCell className="whitespace-nowrap text-muted-foreground">
+                                  {formatDifference(value - baseline, metric.format)}
+                                </TableCell>
+                              )}
+                            </Fragment>
+                          );
+                        })}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+
+            {/* Overlaid Growth Curves */}
+            <div className="rounded-md border p-3 sm:p-4">
+              <h3 className="text-base sm:text-lg font-medium mb-2">Growth Over Time</h3>
+              <ChartContainer config={chartConfig} className="h-[250px] sm:h-[350px] w-full aspect-auto">
+                <LineChart data={chartData} margin={{ left: 12, right: 12 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="years" type="number" domain={[0, 'dataMax']} tickLine={false} axisLine={false} unit=" yr" />
+                  <YAxis tickLine={false} axisLine={false} width={80} tickFormatter={(value: number) => formatCurrency(value).replace(/\.\d+$/, '')} />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        labelFormatter={(_, payload) => `Year ${payload?.[0]?.payload?.years ?? ''}`}
+                        formatter={(value, name) => (
+                          <div className="flex w-full justify-between gap-4">
+                            <span className="text-muted-foreground">{chartConfig[name as string]?.label ?? name}</span>
+                            <span className="font-mono font-medium tabular-nums">{formatCurrency(Number(value))}</span>
+                          </div>
+                        )}
+                      />
+                    }
+                  />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  {scenarios.map((scenario, index) => (
+                    <Line
+                      key={scenario.id}
+                      dataKey={getScenarioKey(index)}
+                      type="monotone"
+                      stroke={`var(--color-${getScenarioKey(index)})`}
+                      strokeWidth={2}
+                      dot={false}
+                      connectNulls
+                    />
+                  ))}
+                </LineChart>
+              </ChartContainer>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,27 @@
+import { createContext, useContext } from "react";
+import type { User } from "@supabase/supabase-js";
+
+// The signed-in user and the actions to sign in and out
+export interface AuthState {
+  user: User | null;      // Signed-in user, or null when using the calculator anonymously
+  isLoading: boolean;     // True until the saved session has been checked
+  sendSignInCode: (email: string) => Promise<void>;
+  verifySignInCode: (email: string, code: string) => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthState | undefined>(undefined);
+
+/**
+ * Gives access to the current account (provided by AuthProvider)
+ * @returns The signed-in user and functions to sign in and out
+ */
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+
+  if (context === undefined) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+
+  return context;
+};
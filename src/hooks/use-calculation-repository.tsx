@@ -0,0 +1,30 @@
+import { useMemo } from "react";
+import { CalculationHistory, CalculationParams, CalculationResult, createHistoryItem } from "@/utils/calculatorUtils";
+import { getCalculationRepository } from "@/utils/repositories/calculationRepository";
+import { useAuth } from "@/hooks/use-auth";
+
+/**
+ * Gives components access to the current account's saved calculations through
+ * the configured repository, without knowing which storage backend is in use
+ * @returns Functions to save, list, delete and clear calculations, and to
+ * follow background changes
+ */
+export function useCalculationRepository() {
+  const { user } = useAuth();
+  const repository = getCalculationRepository(user?.id ?? null);
+
+  return useMemo(() => ({
+    // Save a finished calculation to history
+    saveCalculation: async (params: CalculationParams, result: CalculationResult): Promise<void> => {
+      await repository.save(createHistoryItem(params, result));
+    },
+    // Saved calculations, newest first
+    getCalculationHistory: (): Promise<CalculationHistory[]> => repository.list(),
+    // Delete one saved calculation
+    deleteCalculation: (id: string): Promise<void> => repository.delete(id),
+    // Delete every saved calculation
+    clearCalculationHistory: (): Promise<void> => repository.clear(),
+    // Call the listener when saved calculations change in the background (e.g. after a sync)
+    subscribeToChanges: (listener: () => void): (() => void) => repository.subscribe?.(listener) ?? (() => {})
+  }), [repository]);
+}
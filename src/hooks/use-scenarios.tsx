@@ -0,0 +1,72 @@
+import { useEffect, useState } from "react";
+import { CalculationParams, formatCurrency, generateId } from "@/utils/calculatorUtils";
+
+// Storage key for persisting pinned scenarios
+const STORAGE_KEY = 'pinnedScenarios';
+
+// Fewest and most scenarios that can be compared side by side
+export const MIN_SCENARIOS = 2;
+export const MAX_SCENARIOS = 5;
+
+// A calculation pinned for comparison
+export interface Scenario {
+  id: string;            // Unique identifier
+  label: string;         // Short description shown in the comparison
+  params: CalculationParams; // Inputs the scenario is calculated from
+}
+
+// Short description of a calculation, used as the scenario label
+export const getScenarioLabel = (params: CalculationParams): string => {
+  const time = `${params.time} ${params.timeUnit === 'days' ? 'days' : 'years'}`;
+  const contribution = params.contribution > 0 ? ` + ${formatCurrency(params.contribution)} ${params.contributionFrequency || 'monthly'}` : '';
+  return `${formatCurrency(params.principal)} at ${params.rate}% ${params.frequency}, ${time}${contribution}`;
+};
+
+// Restore pinned scenarios from localStorage (dates are stored as strings)
+const loadScenarios = (): Scenario[] => {
+  try {
+    const saved: Scenario[] = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return saved.map(scenario => ({
+      ...scenario,
+      params: {
+        ...scenario.params,
+        startDate: scenario.params.startDate ? new Date(scenario.params.startDate) : null,
+        endDate: scenario.params.endDate ? new Date(scenario.params.endDate) : null
+      }
+    }));
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Keeps the list of scenarios pinned for comparison, persisted to localStorage
+ * @returns The pinned scenarios and functions to pin, unpin and clear them
+ */
+export function useScenarios() {
+  const [scenarios, setScenarios] = useState<Scenario[]>(loadScenarios);
+
+  // Save pinned scenarios whenever they change
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(scenarios));
+  }, [scenarios]);
+
+  // Pin a scenario; returns false when the comparison is already full
+  const pinScenario = (params: CalculationParams, label: string): boolean => {
+    if (scenarios.length >= MAX_SCENARIOS) return false;
+    setScenarios(prev => [...prev, { id: generateId(), label, params }]);
+    return true;
+  };
+
+  // Remove one pinned scenario
+  const unpinScenario = (id: string) => {
+    setScenarios(prev => prev.filter(scenario => scenario.id !== id));
+  };
+
+  // Remove every pinned scenario
+  const clearScenarios = () => {
+    setScenarios([]);
+  };
+
+  return { scenarios, pinScenario, unpinScenario, clearScenarios };
+}
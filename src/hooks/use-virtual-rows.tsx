@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+// Rows rendered above and below the visible ones so fast scrolling doesn't flash blank space
+const DEFAULT_OVERSCAN = 10;
+
+/**
+ * Windows a long list of fixed-height rows inside a scroll container, so only
+ * the rows in view (plus a few either side) are rendered
+ * @param count - Total number of rows
+ * @param rowHeight - Height of every row, in pixels
+ * @param overscan - Extra rows rendered above and below the visible ones
+ * @returns A ref and scroll handler for the container, the range of rows to render,
+ *          the space to leave above and below them, and a function to scroll to a row
+ */
+export function useVirtualRows<T extends HTMLElement>(count: number, rowHeight: number, overscan = DEFAULT_OVERSCAN) {
+  const containerRef = useRef<T>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  // Measure the container when it mounts, when the row count changes and when the window resizes
+  useEffect(() => {
+    const measure = () => setViewportHeight(containerRef.current?.clientHeight ?? 0);
+    measure();
+    window.addEventListener('resize', measure);
+    return () => window.removeEventListener('resize', measure);
+  }, [count]);
+
+  const onScroll = useCallback((e: React.UIEvent<T>) => {
+    setScrollTop(e.currentTarget.scrollTop);
+  }, []);
+
+  // Scroll so the given row is the first one in view
+  const scrollToIndex = useCallback((index: number) => {
+    if (containerRef.current) {
+      containerRef.current.scrollTop = index * rowHeight;
+    }
+  }, [rowHeight]);
+
+  const start = Math.min(Math.max(Math.floor(scrollTop / rowHeight) - overscan, 0), count);
+  const end = Math.min(Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan, count);
+
+  return {
+    containerRef,
+    onScroll,
+    start,
+    end,
+    paddingTop: start * rowHeight,
+    paddingBottom: (count - end) * rowHeight,
+    scrollToIndex
+  };
+}
@@ -11,41 +11,108 @@ export type Database = {
     Tables: {
       calculations: {
         Row: {
+          contribution: number
+          contribution_frequency: string | null
+          contribution_timing: string | null
+          created_at: string
+          day_count_method: string
+          deleted_at: string | null
+          end_date: string | null
+          final_amount: number
+          formula: string
+          frequency: string
           id: string
+          inflation_rate: number | null
           principal: number
           rate: number
+          rate_schedule: Json | null
+          start_date: string | null
+          stub_method: string
+          stub_position: string
+          tax_rate: number | null
+          tax_withholding: string | null
           time: number
-          frequency: string
-          startDate: string | null
-          finalAmount: number
-          totalInterest: number
-          formula: string
-          created_at: string
+          time_unit: string
+          total_contributions: number
+          total_interest: number
+          total_tax: number | null
+          total_withdrawals: number | null
+          updated_at: string
+          user_id: string | null
+          withdrawal: number | null
+          withdrawal_frequency: string | null
+          withdrawal_start_period: number | null
+          withdrawal_type: string | null
         }
         Insert: {
+          contribution?: number
+          contribution_frequency?: string | null
+          contribution_timing?: string | null
+          created_at?: string
+          day_count_method?: string
+          deleted_at?: string | null
+          end_date?: string | null
+          final_amount: number
+          formula: string
+          frequency: string
           id?: string
+          inflation_rate?: number | null
           principal: number
           rate: number
+          rate_schedule?: Json | null
+          start_date?: string | null
+          stub_method?: string
+          stub_position?: string
+          tax_rate?: number | null
+          tax_withholding?: string | null
           time: number
-          frequency: string
-          startDate?: string | null
-          finalAmount: number
-          totalInterest: number
-          formula: string
-          created_at: string
+          time_unit?: string
+          total_contributions?: number
+          total_interest: number
+          total_tax?: number | null
+          total_withdrawals?: number | null
+          updated_at?: string
+          user_id?: string | null
+          withdrawal?: number | null
+          withdrawal_frequency?: string | null
+          withdrawal_start_period?: number | null
+          withdrawal_type?: string | null
         }
         Update: {
+          contribution?: number
+          contribution_frequency?: string | null
+          contribution_timing?: string | null
+          created_at?: string
+          day_count_method?: string
+          deleted_at?: string | null
+          end_date?: string | null
+          final_amount?: number
+          formula?: string
+          frequency?: string
           id?: string
+          inflation_rate?: number | null
           principal?: number
           rate?: number
+          rate_schedule?: Json | null
+          start_date?: string | null
+          stub_method?: string
+          stub_position?: string
+          tax_rate?: number | null
+          tax_withholding?: string | null
           time?: number
-          frequency?: string
-          startDate?: string | null
-          finalAmount?: number
-          totalInterest?: number
-          formula?: string
-          created_at?: string
+          time_unit?: string
+          total_contributions?: number
+          total_interest?: number
+          total_tax?: number | null
+          total_withdrawals?: number | null
+          updated_at?: string
+          user_id?: string | null
+          withdrawal?: number | null
+          withdrawal_frequency?: string | null
+          withdrawal_start_period?: number | null
+          withdrawal_type?: string | null
         }
+        Relationships: []
       }
     }
     Views: {
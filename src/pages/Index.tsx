@@ -1,36 +1,113 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
 import { Layout } from "@/components/layout";
 import { CalculatorForm } from "@/components/calculator-form";
 import { ResultsDisplay } from "@/components/results-display";
 import { CalculationHistory } from "@/components/calculation-history";
 import { MissingValueCalculator } from "@/components/missing-value-calculator";
+import { LoanCalculator } from "@/components/loan-calculator";
+import { LoanResults } from "@/components/loan-results";
+import { ScenarioComparison } from "@/components/scenario-comparison";
+import { useToast } from "@/components/ui/use-toast";
+import { MAX_SCENARIOS, getScenarioLabel, useScenarios } from "@/hooks/use-scenarios";
+import { ShareState, createShareUrl, hasShareParams, parseShareParams } from "@/utils/shareUtils";
 import { CalculationParams } from "@/utils/calculatorUtils";
+import { LoanParams } from "@/utils/loanUtils";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
 /**
  * Index Component - Main Page of the Compound Interest Calculator
  * 
- * This component manages the main calculator interface with three main features:
+ * This component manages the main calculator interface with five main features:
  * 1. Standard Calculator: Calculate compound interest with all parameters
  * 2. Missing Value Calculator: Solve for a specific missing parameter
- * 3. Calculation History: View and reuse past calculations
+ * 3. Loan Calculator: Amortize a loan, with optional prepayments
+ * 4. Scenario Comparison: Compare pinned calculations side by side
+ * 5. Calculation History: View, reuse and pin past calculations
+ *
+ * Results can be shared as a link that encodes the calculation, the tab and
+ * the solved-for value; opening it restores the form and shows the results.
  */
 const Index = () => {
+  // A calculation shared through the page URL, read once when the page opens
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [sharedLink] = useState(() => readSharedLink(searchParams.toString()));
+  const [shared, setShared] = useState<ShareState | null>(sharedLink.state);
+
   // State management for calculator parameters and active tab
-  const [calculationParams, setCalculationParams] = useState<CalculationParams | null>(null);
-  const [solveFor, setSolveFor] = useState<'principal' | 'rate' | 'time' | 'finalAmount'>('principal');
-  const [activeTab, setActiveTab] = useState('calculator');
+  const [calculationParams, setCalculationParams] = useState<CalculationParams | null>(sharedLink.state?.params ?? null);
+  const [solveFor, setSolveFor] = useState<'principal' | 'rate' | 'time' | 'finalAmount' | 'contribution' | 'withdrawal'>(sharedLink.state?.solveFor ?? 'principal');
+  const [activeTab, setActiveTab] = useState<string>(sharedLink.state?.tab ?? 'calculator');
+  const [loanParams, setLoanParams] = useState<LoanParams | null>(null);
+  const { scenarios, pinScenario, unpinScenario, clearScenarios } = useScenarios();
+  const { toast } = useToast();
+
+  // Report a malformed link, then clear the shared values from the address bar
+  useEffect(() => {
+    if (sharedLink.error) {
+      toast({
+        title: "Invalid link",
+        description: sharedLink.error,
+        variant: "destructive"
+      });
+    }
+    if (sharedLink.error || sharedLink.state) {
+      setSearchParams({}, { replace: true });
+    }
+  }, [sharedLink, setSearchParams, toast]);
 
   /**
    * Handles calculation results from both standard and missing value calculators
    * @param params - The calculation parameters
    * @param solveForValue - Optional parameter indicating which value to solve for
    */
-  const handleCalculate = (params: CalculationParams, solveForValue?: 'principal' | 'rate' | 'time' | 'finalAmount') => {
+  const handleCalculate = (params: CalculationParams, solveForValue?: 'principal' | 'rate' | 'time' | 'finalAmount' | 'contribution' | 'withdrawal') => {
     setCalculationParams(params);
     if (solveForValue) setSolveFor(solveForValue);
   };
 
+  /**
+   * Copies a link that reopens a calculation on the given tab
+   * @param state - The calculation, tab and solved-for value to share
+   */
+  const handleShare = async (state: ShareState) => {
+    const url = createShareUrl(state);
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({
+        title: "Link copied",
+        description: "Anyone with the link can open this calculation."
+      });
+    } catch (error) {
+      console.error('Failed to copy link:', error);
+      toast({
+        title: "Couldn't copy link",
+        description: url,
+        variant: "destructive"
+      });
+    }
+  };
+
+  /**
+   * Pins a calculation for the Compare tab
+   * @param params - The calculation parameters to pin
+   */
+  const handlePin = (params: CalculationParams) => {
+    const label = getScenarioLabel(params);
+    if (!pinScenario(params, label)) {
+      toast({
+        title: "Comparison full",
+        description: `You can compare up to ${MAX_SCENARIOS} scenarios. Remove one to pin another.`,
+        variant: "destructive"
+      });
+      return;
+    }
+    toast({
+      title: "Scenario pinned",
+      description: label
+    });
+  };
+
   return (
     <Layout>
       <div className="w-full px-4">
@@ -47,21 +124,30 @@ const Index = () => {
           value={activeTab}
           onValueChange={val => {
             setActiveTab(val);
+            setShared(null);
             if (val === 'missing-value') setSolveFor('principal');
           }}
           className="w-full"
         >
           {/* Tab Navigation */}
-          <TabsList className="grid w-full grid-cols-1 sm:grid-cols-3 gap-2 sm:gap-1 mb-8">
+          <TabsList className="grid w-full grid-cols-1 sm:grid-cols-5 gap-2 sm:gap-1 mb-8">
             <TabsTrigger value="calculator" className="text-xs sm:text-sm py-2 sm:py-1.5">Calculator</TabsTrigger>
             <TabsTrigger value="missing-value" className="text-xs sm:text-sm py-2 sm:py-1.5">Compute Missing Value</TabsTrigger>
+            <TabsTrigger value="loan" className="text-xs sm:text-sm py-2 sm:py-1.5">Loan</TabsTrigger>
+            <TabsTrigger value="compare" className="text-xs sm:text-sm py-2 sm:py-1.5">Compare ({scenarios.length})</TabsTrigger>
             <TabsTrigger value="history" className="text-xs sm:text-sm py-2 sm:py-1.5">History</TabsTrigger>
           </TabsList>
           
           {/* Standard Calculator Tab */}
           <TabsContent value="calculator" className="space-y-8">
-            <CalculatorForm onCalculate={handleCalculate} />
-            {calculationParams && <ResultsDisplay params={calculationParams} />}
+            <CalculatorForm onCalculate={handleCalculate} sharedParams={shared?.tab === 'calculator' ? shared.params : null} />
+            {calculationParams && (
+              <ResultsDisplay
+                params={calculationParams}
+                onPin={() => handlePin(calculationParams)}
+                onShare={() => handleShare({ tab: 'calculator', params: calculationParams })}
+              />
+            )}
           </TabsContent>
           
           {/* Missing Value Calculator Tab */}
@@ -70,13 +156,31 @@ const Index = () => {
               onCalculate={(params, solveForValue) => handleCalculate(params, solveForValue)} 
               solveFor={solveFor} 
               setSolveFor={setSolveFor} 
+              sharedParams={shared?.tab === 'missing-value' ? shared.params : null}
             />
-            {calculationParams && <ResultsDisplay params={calculationParams} solveFor={solveFor} />}
+            {calculationParams && (
+              <ResultsDisplay
+                params={calculationParams}
+                solveFor={solveFor}
+                onShare={() => handleShare({ tab: 'missing-value', solveFor, params: calculationParams })}
+              />
+            )}
+          </TabsContent>
+          
+          {/* Loan Amortization Tab */}
+          <TabsContent value="loan" className="space-y-8">
+            <LoanCalculator onCalculate={setLoanParams} />
+            {loanParams && <LoanResults params={loanParams} />}
+          </TabsContent>
+          
+          {/* Scenario Comparison Tab */}
+          <TabsContent value="compare">
+            <ScenarioComparison scenarios={scenarios} onRemove={unpinScenario} onClear={clearScenarios} />
           </TabsContent>
           
           {/* History Tab */}
           <TabsContent value="history">
-            <CalculationHistory onSelectHistory={handleCalculate} />
+            <CalculationHistory onSelectHistory={handleCalculate} onPin={handlePin} />
           </TabsContent>
         </Tabs>
       </div>
@@ -84,4 +188,18 @@ const Index = () => {
   );
 };
 
+/**
+ * Reads a shared calculation from the page's query string
+ * @param search - The query string
+ * @returns The shared state, or the reason the link couldn't be read
+ */
+function readSharedLink(search: string): { state: ShareState | null; error?: string } {
+  if (!hasShareParams(search)) return { state: null };
+  try {
+    return { state: parseShareParams(search) };
+  } catch (error) {
+    return { state: null, error: error instanceof Error ? error.message : 'The link could not be read.' };
+  }
+}
+
 export default Index;
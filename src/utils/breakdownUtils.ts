@@ -0,0 +1,138 @@
+import { YearlyBreakdown } from "@/utils/calculatorUtils";
+
+/**
+ * Breakdown Rollups
+ *
+ * `yearlyBreakdown` holds one row per compounding period, so daily compounding
+ * over 30 years is about 11,000 rows. These helpers roll the periods up into
+ * months, quarters or years, summing the flows within each group and keeping
+ * the balances at its end.
+ *
+ * With a start date, groups follow the calendar of each period's end date
+ * (e.g. "Mar 2025", "2025 Q1", "2025"). Without one, they follow elapsed time
+ * from the start of the term ("Year 2 Month 3", "Year 2 Q1", "Year 2").
+ */
+
+// How breakdown rows are grouped; 'period' shows every period
+export type BreakdownGrouping = 'period' | 'month' | 'quarter' | 'year';
+
+// Periods rolled up into one month, quarter or year
+export interface BreakdownGroup {
+  key: string;            // Unique key for the group
+  label: string;          // Display name (e.g. "2025 Q1" or "Year 1")
+  rows: YearlyBreakdown[]; // The periods in this group
+  firstPeriod: number;    // First period number in the group
+  lastPeriod: number;     // Last period number in the group
+  endDate?: string;       // Date of the last period (when dates are set)
+  amount: number;         // Balance at the end of the group
+  interestEarned: number; // Interest earned over the group
+  contribution: number;   // Deposits made over the group
+  totalContributions: number; // Cumulative deposits at the end of the group
+  taxWithheld?: number;   // Tax withheld over the group (when interest is taxed)
+  netInterest?: number;   // Interest after tax over the group (when interest is taxed)
+  totalTaxWithheld?: number; // Cumulative tax withheld at the end of the group
+  withdrawal?: number;    // Withdrawals made over the group (when withdrawals are scheduled)
+  totalWithdrawals?: number; // Cumulative withdrawals at the end of the group
+  realAmount?: number;    // Balance in today's pesos at the end of the group
+}
+
+// Display names for each grouping
+export const GROUPING_LABELS: Record<BreakdownGrouping, string> = {
+  'period': 'Per Period',
+  'month': 'Monthly',
+  'quarter': 'Quarterly',
+  'year': 'Yearly'
+};
+
+// Number of groups in a year for each grouping
+const GROUPS_PER_YEAR: Record<Exclude<BreakdownGrouping, 'period'>, number> = {
+  'month': 12,
+  'quarter': 4,
+  'year': 1
+};
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Key and label of the calendar group a period's end date (YYYY-MM-DD) falls in
+const getCalendarGroup = (date: string, grouping: Exclude<BreakdownGrouping, 'period'>) => {
+  const [year, month] = date.split('-').map(Number);
+  if (grouping === 'month') {
+    return { key: `${year}-${month}`, label: `${MONTH_NAMES[month - 1]} ${year}` };
+  }
+  if (grouping === 'quarter') {
+    const quarter = Math.ceil(month / 3);
+    return { key: `${year}-Q${quarter}`, label: `${year} Q${quarter}` };
+  }
+  return { key: `${year}`, label: `${year}` };
+};
+
+// Key and label of the elapsed-time group a period ends in, given the years elapsed at its end
+const getElapsedGroup = (elapsed: number, grouping: Exclude<BreakdownGrouping, 'period'>) => {
+  const perYear = GROUPS_PER_YEAR[grouping];
+  // Index of the group the period's end falls in (a period ending exactly on a boundary belongs to the group before it)
+  const index = Math.max(Math.ceil(elapsed * perYear - 1e-9) - 1, 0);
+  const year = Math.floor(index / perYear) + 1;
+  const part = (index % perYear) + 1;
+  if (grouping === 'month') return { key: `${index}`, label: `Year ${year} Month ${part}` };
+  if (grouping === 'quarter') return { key: `${index}`, label: `Year ${year} Q${part}` };
+  return { key: `${index}`, label: `Year ${year}` };
+};
+
+/**
+ * Rolls breakdown rows up into months, quarters or years
+ * @param breakdown - Period-by-period rows from calculateCompoundInterest
+ * @param grouping - How to group the rows
+ * @param periodsPerYear - Compounding periods per year (the period length of undated rows saved without one)
+ * @returns One group per month, quarter or year, in order
+ */
+export const groupBreakdown = (
+  breakdown: YearlyBreakdown[],
+  grouping: Exclude<BreakdownGrouping, 'period'>,
+  periodsPerYear: number
+): BreakdownGroup[] => {
+  const groups: BreakdownGroup[] = [];
+  const sum = (total: number | undefined, value: number | undefined) =>
+    value === undefined ? total : (total ?? 0) + value;
+
+  // Years elapsed at the end of the current row, so a short stub doesn't shift later groups
+  let elapsed = 0;
+
+  breakdown.forEach(row => {
+    elapsed += row.periodLength ?? 1 / periodsPerYear;
+    const { key, label } = row.date
+      ? getCalendarGroup(row.date, grouping)
+      : getElapsedGroup(elapsed, grouping);
+
+    let group = groups[groups.length - 1];
+    if (!group || group.key !== key) {
+      group = {
+        key,
+        label,
+        rows: [],
+        firstPeriod: row.year,
+        lastPeriod: row.year,
+        amount: 0,
+        interestEarned: 0,
+        contribution: 0,
+        totalContributions: 0
+      };
+      groups.push(group);
+    }
+
+    group.rows.push(row);
+    group.lastPeriod = row.year;
+    group.endDate = row.date;
+    group.amount = row.amount;
+    group.interestEarned += row.interestEarned;
+    group.contribution += row.contribution;
+    group.totalContributions = row.totalContributions;
+    group.taxWithheld = sum(group.taxWithheld, row.taxWithheld);
+    group.netInterest = sum(group.netInterest, row.netInterest);
+    group.totalTaxWithheld = row.totalTaxWithheld;
+    group.withdrawal = sum(group.withdrawal, row.withdrawal);
+    group.totalWithdrawals = row.totalWithdrawals;
+    group.realAmount = row.realAmount;
+  });
+
+  return groups;
+};
@@ -1,5 +1,3 @@
-import { supabase } from "@/integrations/supabase/client";
-
 /**
  * Types and Interfaces
  */
@@ -11,17 +9,75 @@ export type CompoundingFrequency =
   | 'quarterly' 
   | 'monthly' 
   | 'weekly' 
-  | 'daily';
+  | 'daily'
+  | 'continuously';
+
+// Define possible contribution frequencies (independent of compounding)
+export type ContributionFrequency = Exclude<CompoundingFrequency, 'continuously'>;
+
+// Day-count conventions used to turn days (or date ranges) into year fractions
+export type DayCountMethod = 'actual/365' | 'actual/360' | '30/360' | 'actual/actual';
+
+// Where a partial (stub) period sits when the term doesn't divide evenly into periods
+export type StubPosition = 'front' | 'back';
+
+// How interest accrues over a stub period: simple (r × t) or compounded at the nominal rate
+export type StubMethod = 'simple' | 'compound';
+
+// A change in the annual rate that takes effect part-way through the term
+export interface RateChange {
+  fromYear: number;      // Years from the start when the new rate takes effect
+  rate: number;          // New annual interest rate (as percentage)
+}
+
+// Whether periodic deposits are made at the beginning or end of each contribution period
+export type ContributionTiming = 'beginning' | 'end';
+
+// Whether each scheduled withdrawal is a fixed amount or a percentage of the balance
+export type WithdrawalType = 'fixed' | 'percentage';
+
+// When tax on interest is withheld: as each period's interest is credited, once at
+// maturity, or never (tax-exempt products)
+export type TaxWithholding = 'per-period' | 'at-maturity' | 'exempt';
+
+// Allowed values of each option, for checking values read from links or the database
+export const COMPOUNDING_FREQUENCIES: CompoundingFrequency[] = ['annually', 'semi-annually', 'quarterly', 'monthly', 'weekly', 'daily', 'continuously'];
+export const CONTRIBUTION_FREQUENCIES: ContributionFrequency[] = ['annually', 'semi-annually', 'quarterly', 'monthly', 'weekly', 'daily'];
+export const DAY_COUNT_METHODS: DayCountMethod[] = ['actual/365', 'actual/360', '30/360', 'actual/actual'];
+export const STUB_POSITIONS: StubPosition[] = ['front', 'back'];
+export const STUB_METHODS: StubMethod[] = ['simple', 'compound'];
+export const CONTRIBUTION_TIMINGS: ContributionTiming[] = ['beginning', 'end'];
+export const WITHDRAWAL_TYPES: WithdrawalType[] = ['fixed', 'percentage'];
+export const TAX_WITHHOLDINGS: TaxWithholding[] = ['per-period', 'at-maturity', 'exempt'];
+export const TIME_UNITS: CalculationParams['timeUnit'][] = ['years', 'days'];
+
+// Philippine final withholding tax on peso deposit interest (as percentage)
+export const PH_FINAL_WITHHOLDING_TAX_RATE = 20;
 
 // Parameters required for compound interest calculation
 export interface CalculationParams {
   principal: number;      // Initial investment amount
   rate: number;          // Annual interest rate (as percentage)
+  rateSchedule?: RateChange[];  // Optional rate changes; `rate` applies until the first one
   time: number;          // Time period
   timeUnit: 'years' | 'days';  // Unit of time (years or days)
   frequency: CompoundingFrequency;  // How often interest is compounded
+  dayCountMethod?: DayCountMethod;  // Day-count convention (defaults to Actual/365)
   startDate?: Date | null;  // Optional start date for the calculation
+  endDate?: Date | null;    // Optional maturity date; with a start date it replaces time
+  stubPosition?: StubPosition;  // Stub at the start or end of the term (defaults to back)
+  stubMethod?: StubMethod;  // Interest method for the stub period (defaults to compound)
   targetAmount?: number;    // Optional target amount for reverse calculations
+  contribution?: number;    // Optional recurring deposit on top of the principal
+  contributionFrequency?: ContributionFrequency;  // How often deposits are made
+  contributionTiming?: ContributionTiming;  // When in each contribution period deposits are made
+  inflationRate?: number;   // Optional annual inflation rate (as percentage) for real values
+  taxRate?: number;         // Tax on interest (as percentage, defaults to the 20% final withholding tax)
+  taxWithholding?: TaxWithholding;  // When the tax is withheld (defaults to exempt)
+  withdrawal?: number;      // Optional scheduled withdrawal (amount, or percentage of the balance)
+  withdrawalType?: WithdrawalType;  // Fixed amount or percentage (defaults to fixed)
+  withdrawalFrequency?: ContributionFrequency;  // How often withdrawals are made
+  withdrawalStartPeriod?: number;  // Compounding period in which withdrawals begin (defaults to 1)
 }
 
 // Yearly breakdown of the investment growth
@@ -29,43 +85,236 @@ export interface YearlyBreakdown {
   year: number;          // Year number or period number
   amount: number;        // Total amount at this period
   interestEarned: number; // Interest earned in this period
+  contribution: number;  // Deposits made in this period
+  totalContributions: number; // Cumulative deposits made up to this period
   date?: string;         // Optional date for this period
+  realAmount?: number;   // Amount in today's pesos (when an inflation rate is set)
+  taxWithheld?: number;  // Tax withheld on interest in this period (when interest is taxed)
+  netInterest?: number;  // Interest earned in this period after tax withheld
+  totalTaxWithheld?: number; // Cumulative tax withheld up to this period
+  withdrawal?: number;   // Withdrawals made in this period (when withdrawals are scheduled)
+  totalWithdrawals?: number; // Cumulative withdrawals made up to this period
+  isStub?: boolean;      // Partial period that doesn't span a full compounding period
+  periodLength?: number; // Length of this period in years
 }
 
 // Result of a compound interest calculation
 export interface CalculationResult {
-  finalAmount: number;   // Final amount after compounding
-  totalInterest: number; // Total interest earned
+  finalAmount: number;   // Final amount after compounding (and after any tax withheld)
+  totalInterest: number; // Total interest earned, before tax
+  totalContributions: number; // Total periodic deposits (excluding principal)
   yearlyBreakdown: YearlyBreakdown[]; // Detailed breakdown by period
   formula: string;       // Formula used for calculation
+  realFinalAmount?: number; // Final amount in today's pesos (when an inflation rate is set)
+  realRate?: number;     // Annual real rate of return (as percentage), by the Fisher equation
+  totalTax?: number;     // Total tax withheld on interest (when interest is taxed)
+  netInterest?: number;  // Total interest earned after tax (when interest is taxed)
+  totalWithdrawals?: number; // Total withdrawals made (when withdrawals are scheduled)
+  depletionPeriod?: number; // Period in which the balance ran out, if it did
+  depletionDate?: string;   // Date on which the balance ran out (with a start date)
 }
 
 // Extended calculation parameters for history storage
+// Whether a saved calculation has reached remote storage
+export type SyncStatus =
+  | 'local-only'  // Only kept on this device (no remote storage configured)
+  | 'pending'     // Waiting to be sent to remote storage
+  | 'synced'      // Stored remotely as well
+  | 'failed';     // Gave up after repeated errors
+
 export interface CalculationHistory extends Omit<CalculationParams, 'targetAmount'> {
   id: string;            // Unique identifier
   createdAt: string;     // Timestamp of calculation
+  updatedAt?: string;    // Timestamp of the last change (the newer copy wins when syncing)
   finalAmount: number;   // Final amount calculated
   totalInterest: number; // Total interest earned
+  totalContributions?: number; // Total periodic deposits made
+  totalTax?: number;     // Total tax withheld on interest
+  totalWithdrawals?: number; // Total withdrawals made
   formula: string;       // Formula used
+  syncStatus?: SyncStatus; // Remote sync state (absent means local-only)
 }
 
 /**
  * Utility Functions
  */
 
+// Number of days in a year under the given day-count convention
+export const getDaysInYear = (dayCountMethod: DayCountMethod = 'actual/365'): number => {
+  return dayCountMethod === 'actual/360' || dayCountMethod === '30/360' ? 360 : 365;
+};
+
+// Tax rate withheld on interest (as percentage): 0 for exempt products (the default),
+// otherwise the entered rate or the 20% final withholding tax when none was entered
+export const getTaxRate = (params: Pick<CalculationParams, 'taxRate' | 'taxWithholding'>): number => {
+  if (!params.taxWithholding || params.taxWithholding === 'exempt') return 0;
+  return params.taxRate ?? PH_FINAL_WITHHOLDING_TAX_RATE;
+};
+
+// A problem with a calculation's inputs, worded for a toast or an error message
+export interface ParamsProblem {
+  title: string;
+  description: string;
+}
+
+// Check the optional inputs (inflation, tax, withdrawals, rate changes, contribution and the
+// date range) by the calculator form's rules, so shared links are held to the same ones.
+// Returns the first problem found, or null when they are all valid
+export const validateOptionalParams = (params: CalculationParams): ParamsProblem | null => {
+  if (params.inflationRate < 0 || params.inflationRate > 100) {
+    return { title: "Invalid Inflation Rate", description: "Inflation rate must be between 0% and 100%" };
+  }
+
+  // The tax rate is only used when interest is taxed (without one, the 20% default applies)
+  const isTaxed = params.taxWithholding && params.taxWithholding !== 'exempt';
+  if (isTaxed && params.taxRate !== undefined && (typeof params.taxRate !== 'number' || isNaN(params.taxRate) || params.taxRate < 0 || params.taxRate > 100)) {
+    return { title: "Invalid Tax Rate", description: "Tax rate must be between 0% and 100%" };
+  }
+
+  if (params.withdrawal < 0 || (params.withdrawalType === 'percentage' && params.withdrawal > 100)) {
+    return {
+      title: "Invalid Withdrawal",
+      description: params.withdrawalType === 'percentage'
+        ? "Withdrawal percentage must be between 0% and 100%"
+        : "Withdrawal amount cannot be negative"
+    };
+  }
+  if (params.withdrawal > 0 && !(Number.isInteger(params.withdrawalStartPeriod ?? 1) && (params.withdrawalStartPeriod ?? 1) >= 1)) {
+    return { title: "Invalid Withdrawal Start", description: "Withdrawals must start at a whole period of 1 or later" };
+  }
+
+  const hasInvalidRateChange = (params.rateSchedule || []).some(change =>
+    typeof change.fromYear !== 'number' || isNaN(change.fromYear) || change.fromYear <= 0 ||
+    typeof change.rate !== 'number' || isNaN(change.rate) || change.rate < 0 || change.rate > 100
+  );
+  if (hasInvalidRateChange) {
+    return { title: "Invalid Rate Change", description: "Each rate change needs a start year greater than 0 and a rate between 0% and 100%" };
+  }
+
+  if (params.endDate && !params.startDate) {
+    return { title: "Invalid Date Range", description: "A maturity date needs a start date" };
+  }
+
+  if (params.contribution < 0) {
+    return { title: "Invalid Contribution", description: "Periodic contribution cannot be negative" };
+  }
+
+  return null;
+};
+
 // Convert frequency string to number of compounds per year
-export const getFrequencyValue = (frequency: CompoundingFrequency): number => {
+// (continuous compounding is the limit n → ∞; daily follows the day-count year)
+export const getFrequencyValue = (frequency: CompoundingFrequency, dayCountMethod?: DayCountMethod): number => {
   switch (frequency) {
     case 'annually': return 1;
     case 'semi-annually': return 2;
     case 'quarterly': return 4;
     case 'monthly': return 12;
     case 'weekly': return 52;
-    case 'daily': return 365;
+    case 'daily': return getDaysInYear(dayCountMethod);
+    case 'continuously': return Infinity;
     default: return 1;
   }
 };
 
+// Check whether interest is compounded continuously (A = Pe^(rt))
+export const isContinuous = (frequency: CompoundingFrequency): boolean => frequency === 'continuously';
+
+// Number of breakdown rows per year; continuous compounding has no
+// discrete periods, so its breakdown is sampled yearly
+export const getPeriodsPerYear = (frequency: CompoundingFrequency, dayCountMethod?: DayCountMethod): number => {
+  return isContinuous(frequency) ? 1 : getFrequencyValue(frequency, dayCountMethod);
+};
+
+// Actual number of calendar days between two dates
+const getActualDays = (start: Date, end: Date): number => {
+  const from = Date.UTC(start.getFullYear(), start.getMonth(), start.getDate());
+  const to = Date.UTC(end.getFullYear(), end.getMonth(), end.getDate());
+  return Math.round((to - from) / 86400000);
+};
+
+// Days between two dates under the 30/360 (US bond basis) convention
+const getThirty360Days = (start: Date, end: Date): number => {
+  const d1 = Math.min(start.getDate(), 30);
+  const d2 = end.getDate() === 31 && d1 === 30 ? 30 : end.getDate();
+  return 360 * (end.getFullYear() - start.getFullYear()) + 30 * (end.getMonth() - start.getMonth()) + (d2 - d1);
+};
+
+// Check whether a calendar year has 366 days
+const isLeapYear = (year: number): boolean => (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+
+// Year fraction between two dates under the given day-count convention
+export const getDayCountFraction = (start: Date, end: Date, dayCountMethod: DayCountMethod = 'actual/365'): number => {
+  switch (dayCountMethod) {
+    case 'actual/360':
+      return getActualDays(start, end) / 360;
+    case '30/360':
+      return getThirty360Days(start, end) / 360;
+    case 'actual/actual': {
+      // ISDA: split the span at year boundaries and divide by each year's length
+      let fraction = 0;
+      let cursor = start;
+      while (cursor.getFullYear() < end.getFullYear()) {
+        const nextYear = new Date(cursor.getFullYear() + 1, 0, 1);
+        fraction += getActualDays(cursor, nextYear) / (isLeapYear(cursor.getFullYear()) ? 366 : 365);
+        cursor = nextYear;
+      }
+      return fraction + getActualDays(cursor, end) / (isLeapYear(end.getFullYear()) ? 366 : 365);
+    }
+    default:
+      return getActualDays(start, end) / 365;
+  }
+};
+
+// Maturity date reached by running a time period forward from a start date
+export const getMaturityDate = (startDate: Date, time: number, timeUnit: 'years' | 'days' = 'years'): Date => {
+  const maturity = new Date(startDate);
+  if (timeUnit === 'days') {
+    maturity.setDate(maturity.getDate() + Math.round(time));
+    return maturity;
+  }
+  const wholeYears = Math.floor(time);
+  maturity.setFullYear(maturity.getFullYear() + wholeYears);
+  maturity.setDate(maturity.getDate() + Math.round((time - wholeYears) * 365));
+  return maturity;
+};
+
+// Maturity date of a dated calculation: the explicit end date if one is set,
+// otherwise the start date plus the time period
+export const getScheduleEndDate = (params: CalculationParams): Date | undefined => {
+  if (!params.startDate) return undefined;
+  if (params.endDate) return new Date(params.endDate);
+  return getMaturityDate(new Date(params.startDate), params.time, params.timeUnit);
+};
+
+// Whole calendar days between a start and end date, used when time comes from a date range
+export const getDaysBetween = (startDate: Date, endDate: Date): number => getActualDays(startDate, endDate);
+
+// Length of the whole term in years. Dated calculations run from the start date to
+// maturity (the end date, if given); otherwise time is converted with the day-count convention
+export const getTermInYears = (params: CalculationParams): number => {
+  const dayCountMethod = params.dayCountMethod || 'actual/365';
+  if (params.startDate) {
+    return getDayCountFraction(new Date(params.startDate), getScheduleEndDate(params), dayCountMethod);
+  }
+  return getTimeInYears(params.time, params.timeUnit, dayCountMethod);
+};
+
+// Convert a time period to years using the day-count convention
+// (dated calculations measure the span from the start date to maturity)
+export const getTimeInYears = (
+  time: number,
+  timeUnit: 'years' | 'days' = 'years',
+  dayCountMethod: DayCountMethod = 'actual/365',
+  startDate?: Date | null
+): number => {
+  if (startDate) {
+    const start = new Date(startDate);
+    return getDayCountFraction(start, getMaturityDate(start, time, timeUnit), dayCountMethod);
+  }
+  return timeUnit === 'days' ? time / getDaysInYear(dayCountMethod) : time;
+};
+
 // Format number as Philippine Peso currency
 export const formatCurrency = (value: number): string => {
   return new Intl.NumberFormat('en-PH', {
@@ -86,223 +335,539 @@ export const formatPercentage = (value: number): string => {
 };
 
 // Get the appropriate formula string based on compounding frequency
-export const getFormula = (frequency: CompoundingFrequency, solveFor?: string): string => {
+export const getFormula = (
+  frequency: CompoundingFrequency,
+  solveFor?: string,
+  hasContributions = false,
+  hasRateSchedule = false
+): string => {
+  if (hasRateSchedule && solveFor === undefined) {
+    // Piecewise product over each stretch t_k earning rate r_k
+    const growth = isContinuous(frequency) ? 'e^(Σ r_k·t_k)' : 'Π(1 + r_k/n)^(n·t_k)';
+    return hasContributions
+      ? `CI = P × ${growth} + Σ PMT × ${growth} (from each deposit) - P - PMT × mt`
+      : `CI = P × ${growth} - P`;
+  }
+
+  if (isContinuous(frequency)) {
+    switch (solveFor) {
+      case 'time':
+        return 't = ln(A/P) / r';
+      case 'contribution':
+        return 'PMT = (A - Pe^(rt)) / [((1 + i)^(mt) - 1) / i], where i = e^(r/m) - 1';
+      default:
+        return hasContributions
+          ? 'CI = Pe^(rt) + PMT × [((1 + i)^(mt) - 1) / i] - P - PMT × mt, where i = e^(r/m) - 1'
+          : 'CI = Pe^(rt) - P';
+    }
+  }
+
   switch (solveFor) {
     case 'time':
       return 't = ln(A/P) / (n × ln(1 + r/n))';
+    case 'contribution':
+      return 'PMT = (A - P(1 + r/n)^(nt)) / [((1 + i)^(mt) - 1) / i], where i = (1 + r/n)^(n/m) - 1';
     default:
-      return 'CI = P(1 + r/n)^(nt) - P';
+      return hasContributions
+        ? 'CI = P(1 + r/n)^(nt) + PMT × [((1 + i)^(mt) - 1) / i] - P - PMT × mt, where i = (1 + r/n)^(n/m) - 1'
+        : 'CI = P(1 + r/n)^(nt) - P';
+  }
+};
+
+// Growth factor of one peso left to compound for the given number of years
+export const getGrowthFactor = (
+  rate: number,
+  frequency: CompoundingFrequency,
+  years: number,
+  dayCountMethod?: DayCountMethod
+): number => {
+  if (isContinuous(frequency)) {
+    return Math.exp((rate / 100) * years);
+  }
+  const n = getFrequencyValue(frequency, dayCountMethod);
+  return Math.pow(1 + (rate / 100) / n, n * years);
+};
+
+// Split the span between two points in the term (in years) into pieces that
+// each earn a single rate: the base rate until the first change, then each change in turn
+export const getRateSegments = (
+  rate: number,
+  rateSchedule: RateChange[] = [],
+  from: number,
+  to: number
+): { rate: number; years: number }[] => {
+  const changes = [...rateSchedule].sort((a, b) => a.fromYear - b.fromYear);
+  const segments: { rate: number; years: number }[] = [];
+  let cursor = from;
+  let currentRate = rate;
+  for (const change of changes) {
+    if (change.fromYear <= cursor) {
+      currentRate = change.rate;
+      continue;
+    }
+    if (change.fromYear >= to) break;
+    segments.push({ rate: currentRate, years: change.fromYear - cursor });
+    cursor = change.fromYear;
+    currentRate = change.rate;
+  }
+  segments.push({ rate: currentRate, years: Math.max(to - cursor, 0) });
+  return segments;
+};
+
+// Growth factor between two points in the term under a rate schedule,
+// compounding each stretch at its own nominal rate
+export const getScheduledGrowthFactor = (
+  rate: number,
+  rateSchedule: RateChange[] | undefined,
+  frequency: CompoundingFrequency,
+  from: number,
+  to: number,
+  dayCountMethod?: DayCountMethod
+): number => {
+  return getRateSegments(rate, rateSchedule, from, to)
+    .reduce((factor, segment) => factor * getGrowthFactor(segment.rate, frequency, segment.years, dayCountMethod), 1);
+};
+
+// Real (inflation-adjusted) rate from a nominal effective annual rate, by the Fisher equation:
+// (1 + nominal) = (1 + real)(1 + inflation), with all rates as percentages
+export const getRealRate = (nominalRate: number, inflationRate: number): number => {
+  return ((1 + nominalRate / 100) / (1 + inflationRate / 100) - 1) * 100;
+};
+
+// Discount factor that turns an amount `years` from now into today's pesos
+export const getInflationDeflator = (inflationRate: number, years: number): number => {
+  return Math.pow(1 + inflationRate / 100, years);
+};
+
+// Simple-interest growth factor between two points in the term under a rate schedule
+// (1 + Σ r × t), used for a stub period when the simple stub method is chosen
+export const getScheduledSimpleGrowthFactor = (
+  rate: number,
+  rateSchedule: RateChange[] | undefined,
+  frequency: CompoundingFrequency,
+  from: number,
+  to: number
+): number => {
+  const accrued = getRateSegments(rate, rateSchedule, from, to)
+    .reduce((sum, segment) => sum + (segment.rate / 100) * segment.years, 0);
+  return isContinuous(frequency) ? Math.exp(accrued) : 1 + accrued;
+};
+
+// Advance a date by a number of compounding periods (continuous schedules are sampled yearly).
+// Month-based steps are clamped to the end of the month, so Jan 31 + 1 month is Feb 28/29
+export const addPeriods = (date: Date, frequency: CompoundingFrequency, count = 1): Date => {
+  const next = new Date(date);
+  const addMonths = (months: number) => {
+    const day = next.getDate();
+    next.setDate(1);
+    next.setMonth(next.getMonth() + months);
+    const lastDay = new Date(next.getFullYear(), next.getMonth() + 1, 0).getDate();
+    next.setDate(Math.min(day, lastDay));
+  };
+  switch (frequency) {
+    case 'annually':
+    case 'continuously':
+      addMonths(12 * count);
+      break;
+    case 'semi-annually':
+      addMonths(6 * count);
+      break;
+    case 'quarterly':
+      addMonths(3 * count);
+      break;
+    case 'monthly':
+      addMonths(count);
+      break;
+    case 'weekly':
+      next.setDate(next.getDate() + 7 * count);
+      break;
+    case 'daily':
+      next.setDate(next.getDate() + count);
+      break;
+  }
+  return next;
+};
+
+// Tolerance used when comparing period boundaries expressed in years
+const TIME_EPSILON = 1e-9;
+
+// True for a date holding a real time (comparisons with an Invalid Date are always false)
+const isValidDate = (date?: Date): date is Date => date instanceof Date && !isNaN(date.getTime());
+
+// Most calendar periods a dated span can hold: every frequency steps by at least a day
+const getMaxDatedPeriods = (start: Date, end: Date): number =>
+  Math.abs(getDaysBetween(start, end)) + 2;
+
+// A single compounding period in the schedule
+interface SchedulePeriod {
+  length: number;        // Length of the period in years
+  date?: Date;           // Date the period ends on (dated schedules only)
+  isStub: boolean;       // Partial period covering the uneven part of the term
+}
+
+// Split the term into compounding periods, placing any partial period at the front or back.
+// Dated schedules step by calendar periods (from the start for a back stub, back from
+// maturity for a front stub) and measure each period with the day-count convention
+const buildPeriodSchedule = (
+  frequency: CompoundingFrequency,
+  timeInYears: number,
+  dayCountMethod: DayCountMethod,
+  stubPosition: StubPosition,
+  start?: Date,
+  maturityDate?: Date
+): SchedulePeriod[] => {
+  const schedule: SchedulePeriod[] = [];
+  // An unusable term (e.g. from an Invalid Date) has no periods
+  if (!isFinite(timeInYears)) return schedule;
+
+  if (!isValidDate(start) || !isValidDate(maturityDate)) {
+    const n = getPeriodsPerYear(frequency, dayCountMethod);
+    const fullPeriods = Math.floor(n * timeInYears + TIME_EPSILON);
+    const stubLength = timeInYears - fullPeriods / n;
+    for (let i = 0; i < fullPeriods; i++) {
+      schedule.push({ length: 1 / n, isStub: false });
+    }
+    if (stubLength > TIME_EPSILON) {
+      const stub = { length: stubLength, isStub: true };
+      if (stubPosition === 'front') schedule.unshift(stub);
+      else schedule.push(stub);
+    }
+    return schedule;
+  }
+
+  const boundaries: Date[] = [];
+  const maxPeriods = getMaxDatedPeriods(start, maturityDate);
+  let hasStub = false;
+  if (stubPosition === 'front') {
+    for (let k = 1; k <= maxPeriods; k++) {
+      const date = addPeriods(maturityDate, frequency, -k);
+      if (date.getTime() <= start.getTime()) {
+        hasStub = date.getTime() < start.getTime();
+        break;
+      }
+      boundaries.unshift(date);
+    }
+    boundaries.push(maturityDate);
+  } else {
+    for (let k = 1; k <= maxPeriods; k++) {
+      const date = addPeriods(start, frequency, k);
+      if (date.getTime() > maturityDate.getTime()) break;
+      boundaries.push(date);
+    }
+    const last = boundaries[boundaries.length - 1];
+    if (!last || last.getTime() < maturityDate.getTime()) {
+      boundaries.push(maturityDate);
+      hasStub = true;
+    }
+  }
+
+  let previous = start;
+  boundaries.forEach((date, index) => {
+    if (date.getTime() <= previous.getTime()) return;
+    const isStub = hasStub && (stubPosition === 'front' ? index === 0 : index === boundaries.length - 1);
+    schedule.push({ length: getDayCountFraction(previous, date, dayCountMethod), date, isStub });
+    previous = date;
+  });
+  return schedule;
+};
+
+// List the times (in years) at which periodic deposits are made. Dated schedules place
+// them on calendar dates from the start, measured with the day-count convention like the
+// compounding periods (a deposit on the maturity date falls at the end of the term)
+export const getContributionTimes = (
+  timeInYears: number,
+  frequency: ContributionFrequency,
+  timing: ContributionTiming = 'end',
+  dayCountMethod?: DayCountMethod,
+  start?: Date,
+  maturityDate?: Date
+): number[] => {
+  const times: number[] = [];
+  if (isValidDate(start) && isValidDate(maturityDate)) {
+    let previous = start;
+    let elapsed = 0;
+    const maxPeriods = getMaxDatedPeriods(start, maturityDate);
+    for (let j = 0; j <= maxPeriods; j++) {
+      const date = addPeriods(start, frequency, j);
+      elapsed += getDayCountFraction(previous, date, dayCountMethod);
+      previous = date;
+      const isPastEnd = timing === 'beginning'
+        ? date.getTime() >= maturityDate.getTime()
+        : date.getTime() > maturityDate.getTime();
+      if (isPastEnd) break;
+      if (j === 0 && timing !== 'beginning') continue;
+      times.push(date.getTime() === maturityDate.getTime() ? timeInYears : elapsed);
+    }
+    return times;
+  }
+
+  const m = getFrequencyValue(frequency, dayCountMethod);
+  if (!(m > 0) || !isFinite(timeInYears)) return times;
+  const maxPeriods = Math.ceil(m * timeInYears) + 1;
+  // Beginning-of-period deposits start at t = 0 and stop before maturity;
+  // end-of-period deposits start after the first period and include maturity
+  for (let j = timing === 'beginning' ? 0 : 1; j <= maxPeriods; j++) {
+    const t = j / m;
+    if (timing === 'beginning' ? t >= timeInYears - TIME_EPSILON : t > timeInYears + TIME_EPSILON) break;
+    times.push(t);
   }
+  return times;
 };
 
 /**
  * Main Calculation Functions
  */
 
-// Calculate compound interest with detailed breakdown
+// Calculate compound interest with detailed breakdown. Every stretch of the term (each
+// period, and each deposit or withdrawal from its date to the period end) grows by
+// (1 + r/n)^(n × t), or e^(rt) when continuous; a stub on the simple method is the one
+// exception, earning 1 + r × t
 export const calculateCompoundInterest = (params: CalculationParams): CalculationResult => {
-  const { principal, rate, time, timeUnit, frequency, startDate } = params;
-  const n = getFrequencyValue(frequency);
-  
-  // Convert time to years if it's in days
-  const timeInYears = timeUnit === 'days' ? time / 365 : time;
-  
-  // Calculate final amount using formula
-  const finalAmount = principal * Math.pow(1 + (rate / 100) / n, n * timeInYears);
-  const totalInterest = finalAmount - principal;
-  const formula = getFormula(frequency);
+  const { principal, rate, rateSchedule, frequency, startDate } = params;
+  const dayCountMethod = params.dayCountMethod || 'actual/365';
+  const n = getPeriodsPerYear(frequency, dayCountMethod);
   
+  const start = startDate ? new Date(startDate) : undefined;
+  const maturityDate = getScheduleEndDate(params);
+  const timeInYears = getTermInYears(params);
+
+  // Inflation is optional; with a rate every row also reports its value in today's pesos
+  const inflationRate = params.inflationRate > 0 ? params.inflationRate : 0;
+  const toRealValue = (amount: number, years: number) =>
+    inflationRate > 0 ? amount / getInflationDeflator(inflationRate, years) : undefined;
+
+  // Tax on interest is optional; exempt products (the default) report gross interest only
+  const taxWithholding = params.taxWithholding || 'exempt';
+  const taxRate = getTaxRate(params) / 100;
+  const isTaxed = taxRate > 0;
+
+  // Periodic deposits are optional; without an amount the schedule is empty
+  const contribution = params.contribution > 0 ? params.contribution : 0;
+  const contributionTimes = contribution > 0
+    ? getContributionTimes(timeInYears, params.contributionFrequency || 'monthly', params.contributionTiming, dayCountMethod, start, maturityDate)
+    : [];
+  const isBeginning = params.contributionTiming === 'beginning';
+
   // Generate detailed breakdown for each period
   const breakdown: YearlyBreakdown[] = [];
-  const totalPeriods = n * timeInYears;
-  let currentDate = startDate ? new Date(startDate) : undefined;
-  let previousAmount = principal;
+  const schedule = buildPeriodSchedule(
+    frequency,
+    timeInYears,
+    dayCountMethod,
+    params.stubPosition || 'back',
+    start,
+    maturityDate
+  );
 
-  // Calculate values for each period
-  for (let i = 1; i <= totalPeriods; i++) {
-    let periodAmount: number;
-    let period = i;
-    let periodTime = i / n;
-    
-    // Calculate amount for this period
-    periodAmount = principal * Math.pow(1 + (rate / 100) / n, n * periodTime);
-    const interestEarned = periodAmount - previousAmount;
-    previousAmount = periodAmount;
-
-    // Calculate date for this period if start date is provided
-    let periodDate: string | undefined;
-    if (currentDate) {
-      let date = new Date(currentDate);
-      switch (frequency) {
-        case 'annually':
-          date.setFullYear(date.getFullYear() + 1);
-          break;
-        case 'semi-annually':
-          date.setMonth(date.getMonth() + 6);
-          break;
-        case 'quarterly':
-          date.setMonth(date.getMonth() + 3);
-          break;
-        case 'monthly':
-          date.setMonth(date.getMonth() + 1);
-          break;
-        case 'weekly':
-          date.setDate(date.getDate() + 7);
-          break;
-        case 'daily':
-          date.setDate(date.getDate() + 1);
-          break;
+  // Withdrawals are optional; they are made at the end of each withdrawal period,
+  // from the start of the chosen compounding period onwards
+  const withdrawal = params.withdrawal > 0 ? params.withdrawal : 0;
+  const isPercentageWithdrawal = params.withdrawalType === 'percentage';
+  const withdrawalStart = schedule
+    .slice(0, Math.max((params.withdrawalStartPeriod || 1) - 1, 0))
+    .reduce((sum, period) => sum + period.length, 0);
+  const withdrawalTimes = withdrawal > 0
+    ? getContributionTimes(timeInYears, params.withdrawalFrequency || 'monthly', 'end', dayCountMethod, start, maturityDate)
+        .filter(t => t > withdrawalStart + TIME_EPSILON)
+    : [];
+
+  let balance = principal;
+  let elapsed = 0;
+  let depositIndex = 0;
+  let totalContributions = 0;
+  let grossInterest = 0;
+  let totalTax = 0;
+  let withdrawalIndex = 0;
+  let totalWithdrawals = 0;
+  let depletionPeriod: number | undefined;
+  let depletionDate: string | undefined;
+
+  // Add every deposit due by `to` (made strictly before it for beginning-of-period timing),
+  // compounded from its deposit time up to `to`
+  const applyDeposits = (to: number): number => {
+    let deposited = 0;
+    while (depositIndex < contributionTimes.length) {
+      const t = contributionTimes[depositIndex];
+      const isDue = isBeginning ? t < to - TIME_EPSILON : t <= to + TIME_EPSILON;
+      if (!isDue) break;
+      balance += contribution * getScheduledGrowthFactor(rate, rateSchedule, frequency, t, to, dayCountMethod);
+      deposited += contribution;
+      depositIndex++;
+    }
+    return deposited;
+  };
+
+  // Take every withdrawal due by `to`, valued at `to` (its amount plus the interest it would
+  // have earned). A withdrawal that empties the balance, or would overdraw it, marks the depletion.
+  const applyWithdrawals = (to: number): { withdrawn: number; depleted: boolean } => {
+    let withdrawn = 0;
+    let depleted = false;
+    while (withdrawalIndex < withdrawalTimes.length && withdrawalTimes[withdrawalIndex] <= to + TIME_EPSILON) {
+      const t = withdrawalTimes[withdrawalIndex];
+      const growth = getScheduledGrowthFactor(rate, rateSchedule, frequency, t, to, dayCountMethod);
+      const requested = isPercentageWithdrawal ? (balance / growth) * (withdrawal / 100) : withdrawal;
+      if (requested * growth > balance + 1e-6) {
+        withdrawn += Math.max(balance, 0) / growth;
+        balance = 0;
+        depleted = true;
+      } else {
+        withdrawn += requested;
+        balance -= requested * growth;
+        if (requested > 0 && balance <= 1e-6) {
+          balance = 0;
+          depleted = true;
+        }
       }
-      periodDate = date.toISOString().split('T')[0];
-      currentDate = date;
+      withdrawalIndex++;
     }
+    return { withdrawn, depleted };
+  };
+
+  // Calculate values for each period
+  schedule.forEach((period, index) => {
+    const previousAmount = balance;
+    const periodStart = elapsed;
+    elapsed += period.length;
+
+    // Grow the opening balance over the period with the same compound model as the
+    // deposits and withdrawals (only a stub on the simple method accrues simply),
+    // then add this period's deposits
+    const growth = period.isStub && params.stubMethod === 'simple'
+      ? getScheduledSimpleGrowthFactor(rate, rateSchedule, frequency, periodStart, elapsed)
+      : getScheduledGrowthFactor(rate, rateSchedule, frequency, periodStart, elapsed, dayCountMethod);
+    balance *= growth;
+    const isLastPeriod = index === schedule.length - 1;
+    const periodContribution = applyDeposits(isLastPeriod ? timeInYears : elapsed);
+    totalContributions += periodContribution;
+    const { withdrawn, depleted } = applyWithdrawals(isLastPeriod ? timeInYears : elapsed);
+    totalWithdrawals += withdrawn;
+    if (depleted && depletionPeriod === undefined) {
+      depletionPeriod = index + 1;
+      depletionDate = period.date?.toISOString().split('T')[0];
+    }
+
+    // Withhold tax from the interest as it is credited, or from all interest in the final period
+    const interestEarned = balance - previousAmount - periodContribution + withdrawn;
+    grossInterest += interestEarned;
+    let taxWithheld = 0;
+    if (taxWithholding === 'per-period') {
+      taxWithheld = Math.max(interestEarned, 0) * taxRate;
+    } else if (taxWithholding === 'at-maturity' && isLastPeriod) {
+      taxWithheld = Math.max(grossInterest, 0) * taxRate;
+    }
+    balance -= taxWithheld;
+    totalTax += taxWithheld;
 
     breakdown.push({
-      year: period,
-      amount: periodAmount,
+      year: index + 1,
+      amount: balance,
       interestEarned,
-      date: periodDate
+      contribution: periodContribution,
+      totalContributions,
+      date: period.date?.toISOString().split('T')[0],
+      realAmount: toRealValue(balance, elapsed),
+      taxWithheld: isTaxed ? taxWithheld : undefined,
+      netInterest: isTaxed ? interestEarned - taxWithheld : undefined,
+      totalTaxWithheld: isTaxed ? totalTax : undefined,
+      withdrawal: withdrawal > 0 ? withdrawn : undefined,
+      totalWithdrawals: withdrawal > 0 ? totalWithdrawals : undefined,
+      isStub: period.isStub || undefined,
+      periodLength: period.length
     });
+  });
+
+  // The last breakdown row always reconciles to the final amount: every period,
+  // including any stub, is a row, so the schedule ends exactly at maturity
+  const finalAmount = breakdown.length > 0 ? breakdown[breakdown.length - 1].amount : principal;
+  const totalInterest = finalAmount + totalTax + totalWithdrawals - principal - totalContributions;
+  const formula = getFormula(frequency, undefined, contribution > 0, rateSchedule?.length > 0);
+
+  // Real values: the nominal rate is the annualised effective growth of the principal over the
+  // term (so rate schedules are covered too), deflated by inflation via the Fisher equation
+  let realFinalAmount: number | undefined;
+  let realRate: number | undefined;
+  if (inflationRate > 0) {
+    realFinalAmount = breakdown.length > 0
+      ? breakdown[breakdown.length - 1].realAmount
+      : principal;
+    const nominalEffectiveRate = timeInYears > 0
+      ? (Math.pow(getScheduledGrowthFactor(rate, rateSchedule, frequency, 0, timeInYears, dayCountMethod), 1 / timeInYears) - 1) * 100
+      : (getGrowthFactor(rate, frequency, 1, dayCountMethod) - 1) * 100;
+    realRate = getRealRate(nominalEffectiveRate, inflationRate);
   }
 
   return {
     finalAmount,
     totalInterest,
+    totalContributions,
     yearlyBreakdown: breakdown,
-    formula
+    formula,
+    realFinalAmount,
+    realRate,
+    totalTax: isTaxed ? totalTax : undefined,
+    netInterest: isTaxed ? totalInterest - totalTax : undefined,
+    totalWithdrawals: withdrawal > 0 ? totalWithdrawals : undefined,
+    depletionPeriod,
+    depletionDate
   };
 };
 
-// Generate unique ID for history items
+// Rebuild the calculation parameters stored with a history item (dates are stored as strings)
+export const getParamsFromHistory = (item: CalculationHistory): CalculationParams => ({
+  principal: item.principal,
+  rate: item.rate,
+  rateSchedule: item.rateSchedule,
+  time: item.time,
+  timeUnit: item.timeUnit,
+  frequency: item.frequency,
+  dayCountMethod: item.dayCountMethod,
+  startDate: item.startDate ? new Date(item.startDate) : null,
+  endDate: item.endDate ? new Date(item.endDate) : null,
+  stubPosition: item.stubPosition,
+  stubMethod: item.stubMethod,
+  contribution: item.contribution,
+  contributionFrequency: item.contributionFrequency,
+  contributionTiming: item.contributionTiming,
+  inflationRate: item.inflationRate,
+  taxRate: item.taxRate,
+  taxWithholding: item.taxWithholding,
+  withdrawal: item.withdrawal,
+  withdrawalType: item.withdrawalType,
+  withdrawalFrequency: item.withdrawalFrequency,
+  withdrawalStartPeriod: item.withdrawalStartPeriod
+});
+
+// Generate a unique ID (a random UUID, so history items keep the same id locally and in the database)
 export const generateId = (): string => {
-  return Date.now().toString(36) + Math.random().toString(36).substring(2);
+  if (typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  // randomUUID needs a secure context; build a version 4 UUID from random bytes instead
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+// Check whether an id is a UUID (history items saved by older versions have shorter ids)
+export const isUuid = (id: string): boolean => {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id);
 };
 
-// Store calculation in history
-export const saveCalculation = async (params: CalculationParams, result: CalculationResult): Promise<void> => {
-  const historyItem: CalculationHistory = {
+// Build the history entry for a finished calculation, with its own id and timestamp
+export const createHistoryItem = (params: CalculationParams, result: CalculationResult): CalculationHistory => {
+  const createdAt = new Date().toISOString();
+  return {
     ...params,
     ...result,
     id: generateId(),
-    createdAt: new Date().toISOString(),
+    createdAt,
+    updatedAt: createdAt,
     finalAmount: result.finalAmount,
     totalInterest: result.totalInterest,
     formula: result.formula
   };
-  
-  // Save to localStorage
-  const history = await getCalculationHistory();
-  history.unshift(historyItem);
-  localStorage.setItem('calculationHistory', JSON.stringify(history));
-  
-  // Save to Supabase database
-  try {
-    const { data, error } = await supabase.from('calculations').insert([{
-      principal: params.principal,
-      rate: params.rate,
-      time: params.time,
-      time_unit: params.timeUnit,
-      frequency: params.frequency,
-      start_date: params.startDate?.toISOString() ?? null,
-      final_amount: result.finalAmount,
-      total_interest: result.totalInterest,
-      formula: result.formula,
-      created_at: historyItem.createdAt
-    }]);
-    
-    if (error) {
-      console.error('Supabase insert error:', error);
-      throw error;
-    }
-    
-    console.log('Successfully saved to Supabase:', data);
-  } catch (error) {
-    console.error('Failed to save calculation to database:', error);
-  }
-};
-
-// Get calculation history from both localStorage and database
-export const getCalculationHistory = async (): Promise<CalculationHistory[]> => {
-  // Get from localStorage
-  const localHistory = localStorage.getItem('calculationHistory');
-  const localHistoryItems = localHistory ? JSON.parse(localHistory) : [];
-  
-  try {
-    // Get from database
-    const { data: dbHistory, error } = await supabase
-      .from('calculations')
-      .select('*')
-      .order('created_at', { ascending: false });
-      
-    if (error) {
-      console.error('Supabase fetch error:', error);
-      throw error;
-    }
-    
-    // Merge and deduplicate history items
-    const dbHistoryItems = dbHistory.map(item => ({
-      id: item.id,
-      principal: item.principal,
-      rate: item.rate,
-      time: item.time,
-      time_unit: item.time_unit,
-      frequency: item.frequency,
-      startDate: item.start_date ? new Date(item.start_date) : null,
-      finalAmount: item.final_amount,
-      totalInterest: item.total_interest,
-      formula: item.formula,
-      createdAt: item.created_at
-    }));
-    
-    // Combine both histories, removing duplicates based on createdAt
-    const combinedHistory = [...localHistoryItems];
-    dbHistoryItems.forEach(dbItem => {
-      if (!combinedHistory.some(localItem => localItem.createdAt === dbItem.createdAt)) {
-        combinedHistory.push(dbItem);
-      }
-    });
-    
-    return combinedHistory;
-  } catch (error) {
-    console.error('Failed to fetch calculations from database:', error);
-    return localHistoryItems;
-  }
-};
-
-// Delete a calculation from both localStorage and database
-export const deleteCalculation = async (id: string): Promise<void> => {
-  // Delete from localStorage
-  const history = await getCalculationHistory();
-  const updatedHistory = history.filter(item => item.id !== id);
-  localStorage.setItem('calculationHistory', JSON.stringify(updatedHistory));
-  
-  // Delete from database
-  try {
-    const { error } = await supabase
-      .from('calculations')
-      .delete()
-      .eq('id', id);
-      
-    if (error) {
-      console.error('Supabase delete error:', error);
-      throw error;
-    }
-  } catch (error) {
-    console.error('Failed to delete calculation from database:', error);
-  }
-};
-
-// Clear all calculation history from both localStorage and database
-export const clearCalculationHistory = async (): Promise<void> => {
-  // Clear localStorage
-  localStorage.setItem('calculationHistory', JSON.stringify([]));
-  
-  // Clear database
-  try {
-    await supabase.from('calculations').delete().neq('id', '');
-  } catch (error) {
-    console.error('Failed to clear calculations from database:', error);
-  }
 };
 
 // Calculate missing principal amount
@@ -311,11 +876,11 @@ export const calculateMissingPrincipal = (
   rate: number,
   time: number,
   frequency: CompoundingFrequency,
-  timeUnit: 'years' | 'days' = 'years'
+  timeUnit: 'years' | 'days' = 'years',
+  dayCountMethod: DayCountMethod = 'actual/365'
 ): number => {
-  const n = getFrequencyValue(frequency);
-  const timeInYears = timeUnit === 'days' ? time / 365 : time;
-  return finalAmount / Math.pow(1 + (rate / 100) / n, n * timeInYears);
+  const timeInYears = getTimeInYears(time, timeUnit, dayCountMethod);
+  return finalAmount / getGrowthFactor(rate, frequency, timeInYears, dayCountMethod);
 };
 
 // Calculate missing final amount
@@ -324,11 +889,11 @@ export const calculateMissingFinalAmount = (
   rate: number,
   time: number,
   frequency: CompoundingFrequency,
-  timeUnit: 'years' | 'days' = 'years'
+  timeUnit: 'years' | 'days' = 'years',
+  dayCountMethod: DayCountMethod = 'actual/365'
 ): number => {
-  const n = getFrequencyValue(frequency);
-  const timeInYears = timeUnit === 'days' ? time / 365 : time;
-  return principal * Math.pow(1 + (rate / 100) / n, n * timeInYears);
+  const timeInYears = getTimeInYears(time, timeUnit, dayCountMethod);
+  return principal * getGrowthFactor(rate, frequency, timeInYears, dayCountMethod);
 };
 
 // Calculate missing interest rate
@@ -337,10 +902,14 @@ export const calculateMissingRate = (
   finalAmount: number,
   time: number,
   frequency: CompoundingFrequency,
-  timeUnit: 'years' | 'days' = 'years'
+  timeUnit: 'years' | 'days' = 'years',
+  dayCountMethod: DayCountMethod = 'actual/365'
 ): number => {
-  const n = getFrequencyValue(frequency);
-  const timeInYears = timeUnit === 'days' ? time / 365 : time;
+  const timeInYears = getTimeInYears(time, timeUnit, dayCountMethod);
+  if (isContinuous(frequency)) {
+    return Math.log(finalAmount / principal) / timeInYears * 100;
+  }
+  const n = getFrequencyValue(frequency, dayCountMethod);
   return (Math.pow(finalAmount / principal, 1 / (n * timeInYears)) - 1) * n * 100;
 };
 
@@ -350,9 +919,56 @@ export const calculateMissingTime = (
   finalAmount: number,
   rate: number,
   frequency: CompoundingFrequency,
-  timeUnit: 'years' | 'days' = 'years'
+  timeUnit: 'years' | 'days' = 'years',
+  dayCountMethod: DayCountMethod = 'actual/365'
 ): number => {
-  const n = getFrequencyValue(frequency);
-  const timeInYears = Math.log(finalAmount / principal) / (n * Math.log(1 + (rate / 100) / n));
-  return timeUnit === 'days' ? timeInYears * 365 : timeInYears;
+  let timeInYears: number;
+  if (isContinuous(frequency)) {
+    timeInYears = Math.log(finalAmount / principal) / (rate / 100);
+  } else {
+    const n = getFrequencyValue(frequency, dayCountMethod);
+    timeInYears = Math.log(finalAmount / principal) / (n * Math.log(1 + (rate / 100) / n));
+  }
+  return timeUnit === 'days' ? timeInYears * getDaysInYear(dayCountMethod) : timeInYears;
+};
+
+// Calculate the periodic deposit needed to reach a target amount. The final amount is
+// linear in the deposit, so one run for the principal alone and one for a ₱1 deposit solve it
+// exactly. A negative result means the principal alone already exceeds the target.
+export const calculateMissingContribution = (
+  params: CalculationParams,
+  targetAmount: number
+): number => {
+  const principalOnly = calculateCompoundInterest({ ...params, contribution: 0 }).finalAmount;
+  const perPeso = calculateCompoundInterest({ ...params, principal: 0, contribution: 1 }).finalAmount;
+  return perPeso > 0 ? (targetAmount - principalOnly) / perPeso : NaN;
+};
+
+// Calculate the largest fixed withdrawal the balance can sustain for the whole term,
+// leaving at least `remainingBalance` at maturity. The final balance falls as the
+// withdrawal grows, so the answer is found by bisection on the full simulation.
+export const calculateMaxWithdrawal = (
+  params: CalculationParams,
+  remainingBalance: number = 0
+): number => {
+  const withWithdrawal = (withdrawal: number) =>
+    calculateCompoundInterest({ ...params, withdrawal, withdrawalType: 'fixed' });
+  const isSustainable = (withdrawal: number) => {
+    const result = withWithdrawal(withdrawal);
+    return result.depletionPeriod === undefined && result.finalAmount >= remainingBalance - 0.005;
+  };
+
+  // No single withdrawal can exceed everything the balance grows to without withdrawals
+  let low = 0;
+  let high = withWithdrawal(0).finalAmount;
+  if (!isSustainable(low)) return 0;
+  for (let i = 0; i < 100 && high - low > 1e-6; i++) {
+    const mid = (low + high) / 2;
+    if (isSustainable(mid)) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
 };
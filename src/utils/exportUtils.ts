@@ -0,0 +1,330 @@
+import { CalculationParams, CalculationResult, formatCurrency, getTaxRate } from "@/utils/calculatorUtils";
+import { FREQUENCY_LABELS } from "@/utils/rateUtils";
+
+/**
+ * Schedule Export
+ *
+ * Turns a calculation into a sheet: a header block listing the inputs and the
+ * formula, a blank line, then one row per period (period number, date, balance,
+ * interest earned and cumulative interest, plus deposit, withdrawal and tax
+ * columns when they apply). The sheet is written out as CSV or as an XLSX
+ * workbook. Amounts in the schedule are plain numbers rounded to centavos so
+ * they can be summed and reconciled in a spreadsheet.
+ *
+ * XLSX files are built here rather than with a library: a workbook is a zip of
+ * a few XML parts, stored uncompressed.
+ */
+
+// A cell of the exported sheet
+export type ExportCell = string | number | null;
+
+// Export formats offered in the export menu
+export type ExportFormat = 'csv' | 'xlsx';
+
+// Round an amount to centavos
+const toCentavos = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Lists a calculation's inputs as label/value pairs, for the header of an export or report
+ * @param params - The calculation parameters
+ * @param result - The calculation result
+ * @returns Label and formatted value for each input that was set, ending with the formula
+ */
+export const getParameterSummary = (params: CalculationParams, result: CalculationResult): [string, string][] => {
+  const summary: [string, string][] = [
+    ['Principal', formatCurrency(params.principal)],
+    ['Annual Rate', `${params.rate}%`],
+    ['Compounding', FREQUENCY_LABELS[params.frequency] ?? params.frequency],
+    ['Time', `${params.time} ${params.timeUnit === 'days' ? 'days' : 'years'}`]
+  ];
+  if (params.rateSchedule?.length > 0) {
+    summary.push(['Rate Changes', params.rateSchedule.map(change => `${change.rate}% from year ${change.fromYear}`).join('; ')]);
+  }
+  if (params.dayCountMethod) summary.push(['Day Count', params.dayCountMethod]);
+  if (params.startDate) summary.push(['Start Date', params.startDate.toISOString().split('T')[0]]);
+  if (params.endDate) summary.push(['End Date', params.endDate.toISOString().split('T')[0]]);
+  if (params.contribution > 0) {
+    summary.push(['Contribution', `${formatCurrency(params.contribution)} ${params.contributionFrequency || 'monthly'} (${params.contributionTiming || 'end'} of period)`]);
+  }
+  if (params.withdrawal > 0) {
+    const amount = params.withdrawalType === 'percentage' ? `${params.withdrawal}% of the balance` : formatCurrency(params.withdrawal);
+    summary.push(['Withdrawal', `${amount} ${params.withdrawalFrequency || 'monthly'} from period ${params.withdrawalStartPeriod || 1}`]);
+  }
+  if (getTaxRate(params) > 0) {
+    summary.push(['Tax on Interest', `${getTaxRate(params)}% withheld ${params.taxWithholding.replace('-', ' ')}`]);
+  }
+  if (params.inflationRate > 0) summary.push(['Inflation Rate', `${params.inflationRate}%`]);
+  summary.push(['Formula', result.formula]);
+  return summary;
+};
+
+/**
+ * Builds the sheet to export: the parameter block, a blank row, then the schedule
+ * @param params - The calculation parameters
+ * @param result - The calculation result
+ * @returns Rows of cells, ready to write as CSV or XLSX
+ */
+export const getExportRows = (params: CalculationParams, result: CalculationResult): ExportCell[][] => {
+  const hasContributions = result.totalContributions > 0;
+  const hasWithdrawals = result.totalWithdrawals !== undefined;
+  const hasTax = result.totalTax !== undefined;
+
+  const header: ExportCell[] = [
+    'Period',
+    'Date',
+    ...(hasContributions ? ['Contribution'] : []),
+    ...(hasWithdrawals ? ['Withdrawal'] : []),
+    'Balance',
+    'Interest Earned',
+    ...(hasTax ? ['Tax Withheld'] : []),
+    'Cumulative Interest'
+  ];
+
+  const schedule = result.yearlyBreakdown.map(row => {
+    const cumulativeInterest = row.amount + (row.totalTaxWithheld ?? 0) + (row.totalWithdrawals ?? 0) - params.principal - row.totalContributions;
+    return [
+      row.year,
+      row.date ?? null,
+      ...(hasContributions ? [toCentavos(row.contribution)] : []),
+      ...(hasWithdrawals ? [toCentavos(row.withdrawal ?? 0)] : []),
+      toCentavos(row.amount),
+      toCentavos(row.interestEarned),
+      ...(hasTax ? [toCentavos(row.taxWithheld ?? 0)] : []),
+      toCentavos(cumulativeInterest)
+    ];
+  });
+
+  return [
+    ['Compound Interest Schedule'],
+    ...getParameterSummary(params, result),
+    ['Final Amount', formatCurrency(result.finalAmount)],
+    ['Total Interest', formatCurrency(result.totalInterest)],
+    [],
+    header,
+    ...schedule
+  ];
+};
+
+// Quote a CSV field when it holds a comma, quote or line break (RFC 4180)
+const toCsvField = (cell: ExportCell): string => {
+  if (cell === null) return '';
+  const text = String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Writes rows as CSV
+ * @param rows - Rows of cells
+ * @returns CSV text with CRLF line endings
+ */
+export const toCsv = (rows: ExportCell[][]): string => {
+  return rows.map(row => row.map(toCsvField).join(',')).join('\r\n') + '\r\n';
+};
+
+// CRC-32 lookup table for zip entries
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Date and time in MS-DOS format, as zip entries record them (local time, 2-second resolution)
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+  date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+// Build an uncompressed ("stored") zip archive from named files, stamped with the given time
+const createZip = (files: { name: string; content: string }[], modified: Date = new Date()): Uint8Array => {
+  const encoder = new TextEncoder();
+  const stamp = toDosDateTime(modified);
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach(file => {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true); // Local file header signature
+    local.setUint16(4, 20, true);         // Version needed to extract
+    local.setUint16(8, 0, true);          // Compression method: stored
+    local.setUint16(10, stamp.time, true); // Last modified time
+    local.setUint16(12, stamp.date, true); // Last modified date
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    localParts.push(new Uint8Array(local.buffer), name, data);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true); // Central directory header signature
+    central.setUint16(4, 20, true);         // Version made by
+    central.setUint16(6, 20, true);         // Version needed to extract
+    central.setUint16(12, stamp.time, true); // Last modified time
+    central.setUint16(14, stamp.date, true); // Last modified date
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);    // Offset of the local header
+    centralParts.push(new Uint8Array(central.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  });
+
+  const centralSize = centralParts.reduce((size, part) => size + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true); // End of central directory signature
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)];
+  const zip = new Uint8Array(offset + centralSize + 22);
+  let position = 0;
+  parts.forEach(part => {
+    zip.set(part, position);
+    position += part.length;
+  });
+  return zip;
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Spreadsheet column letters for a zero-based index (0 → A, 26 → AA)
+const getColumnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+/**
+ * Writes rows as a single-sheet XLSX workbook; numbers keep a #,##0.00 format
+ * @param rows - Rows of cells
+ * @param sheetName - Name of the worksheet
+ * @returns The workbook file contents
+ */
+export const toXlsx = (rows: ExportCell[][], sheetName = 'Schedule'): Uint8Array => {
+  const sheetRows = rows.map((row, rowIndex) => {
+    const cells = row.map((cell, columnIndex) => {
+      if (cell === null) return '';
+      const ref = `${getColumnName(columnIndex)}${rowIndex + 1}`;
+      if (typeof cell === 'number') {
+        // Period numbers stay plain integers; amounts use the currency-style format
+        return `<c r="${ref}"${Number.isInteger(cell) && columnIndex === 0 ? '' : ' s="1"'}><v>${cell}</v></c>`;
+      }
+      return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+    });
+    return `<row r="${rowIndex + 1}">${cells.join('')}</row>`;
+  });
+
+  return createZip([
+    {
+      name: '[Content_Types].xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+        + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+        + '<Default Extension="xml" ContentType="application/xml"/>'
+        + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+        + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+        + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+        + '</Types>'
+    },
+    {
+      name: '_rels/.rels',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+        + '</Relationships>'
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+        + `<sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets>`
+        + '</workbook>'
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+        + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>'
+        + '</Relationships>'
+    },
+    {
+      name: 'xl/styles.xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+        + '<fonts count="1"><font><sz val="11"/><name val="Calibri"/></font></fonts>'
+        + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+        + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+        + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+        + '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+        + '<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs>'
+        + '</styleSheet>'
+    },
+    {
+      name: 'xl/worksheets/sheet1.xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+        + `<sheetData>${sheetRows.join('')}</sheetData>`
+        + '</worksheet>'
+    }
+  ]);
+};
+
+/**
+ * Starts a browser download of a file
+ * @param content - File contents
+ * @param filename - Name to save the file as
+ * @param type - MIME type of the file
+ */
+export const downloadFile = (content: BlobPart, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Downloads a calculation's schedule as CSV or XLSX
+ * @param params - The calculation parameters
+ * @param result - The calculation result
+ * @param format - File format to download
+ */
+export const exportSchedule = (params: CalculationParams, result: CalculationResult, format: ExportFormat) => {
+  const rows = getExportRows(params, result);
+  const filename = `compound-interest-schedule-${new Date().toISOString().split('T')[0]}.${format}`;
+  if (format === 'csv') {
+    // Byte order mark so Excel opens the file as UTF-8 (for the peso sign)
+    downloadFile('\uFEFF' + toCsv(rows), filename, 'text/csv;charset=utf-8');
+  } else {
+    downloadFile(toXlsx(rows), filename, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+  }
+};
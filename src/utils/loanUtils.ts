@@ -0,0 +1,135 @@
+import { ContributionFrequency, addPeriods, getFrequencyValue } from "@/utils/calculatorUtils";
+
+/**
+ * Types and Interfaces
+ */
+
+// What happens after an extra payment: keep the term and lower the payment, or keep
+// the payment and finish the loan early
+export type PrepaymentStrategy = 'reamortize' | 'shorten-term';
+
+// A one-off extra payment made together with a scheduled payment
+export interface Prepayment {
+  period: number;        // Payment number the extra payment is made with
+  amount: number;        // Extra amount paid towards the principal
+}
+
+// Parameters required for a loan amortization schedule
+export interface LoanParams {
+  principal: number;     // Amount borrowed
+  rate: number;          // Annual interest rate (as percentage)
+  term: number;          // Loan term in years
+  paymentFrequency: ContributionFrequency;  // How often payments are made
+  startDate?: Date | null;  // Optional date the loan is released
+  extraPayment?: number;    // Optional extra amount paid with every payment
+  prepayments?: Prepayment[];  // Optional one-off extra payments
+  prepaymentStrategy?: PrepaymentStrategy;  // Defaults to shortening the term
+}
+
+// One row of the amortization table
+export interface AmortizationRow {
+  year: number;          // Payment number
+  payment: number;       // Scheduled payment (interest plus principal)
+  interestPaid: number;  // Interest portion of the payment
+  principalPaid: number; // Principal portion of the scheduled payment
+  prepayment: number;    // Extra principal paid with this payment
+  balance: number;       // Remaining balance after this payment
+  totalInterest: number; // Cumulative interest paid up to this payment
+  date?: string;         // Optional payment date
+}
+
+// Result of an amortization calculation
+export interface LoanResult {
+  payment: number;       // Periodic payment from the annuity formula
+  numberOfPayments: number; // Payments actually made (fewer when prepayments shorten the term)
+  totalInterest: number; // Total interest paid over the life of the loan
+  totalPaid: number;     // Total of all payments and prepayments
+  interestSaved: number; // Interest saved compared with no prepayments
+  schedule: AmortizationRow[]; // Payment-by-payment breakdown
+  formula: string;       // Formula used for the payment
+}
+
+/**
+ * Utility Functions
+ */
+
+// Balances below this are treated as fully repaid
+const BALANCE_EPSILON = 1e-6;
+
+// Periodic payment that repays `principal` over `periods` payments at `periodRate` per period
+export const getAnnuityPayment = (principal: number, periodRate: number, periods: number): number => {
+  if (periods <= 0) return principal;
+  if (periodRate === 0) return principal / periods;
+  return principal * periodRate / (1 - Math.pow(1 + periodRate, -periods));
+};
+
+/**
+ * Main Calculation Functions
+ */
+
+// Calculate the periodic payment and full amortization schedule of a loan
+export const calculateAmortization = (params: LoanParams): LoanResult => {
+  const { principal, rate, term, paymentFrequency } = params;
+  const m = getFrequencyValue(paymentFrequency);
+  const periodRate = rate / 100 / m;
+  const totalPeriods = Math.max(Math.round(term * m), 1);
+  const strategy = params.prepaymentStrategy || 'shorten-term';
+  const extraPayment = params.extraPayment > 0 ? params.extraPayment : 0;
+  const start = params.startDate ? new Date(params.startDate) : undefined;
+
+  // One-off prepayments, summed per payment number
+  const lumpSums = new Map<number, number>();
+  (params.prepayments || []).forEach(({ period, amount }) => {
+    if (amount > 0) lumpSums.set(period, (lumpSums.get(period) || 0) + amount);
+  });
+
+  const initialPayment = getAnnuityPayment(principal, periodRate, totalPeriods);
+  let payment = initialPayment;
+  let balance = principal;
+  let totalInterest = 0;
+  let totalPaid = 0;
+  const schedule: AmortizationRow[] = [];
+
+  for (let k = 1; k <= totalPeriods && balance > BALANCE_EPSILON; k++) {
+    // The last payment only covers what is left
+    const interestPaid = balance * periodRate;
+    const scheduledPayment = Math.min(payment, balance + interestPaid);
+    const principalPaid = scheduledPayment - interestPaid;
+    balance -= principalPaid;
+
+    const prepayment = Math.min(extraPayment + (lumpSums.get(k) || 0), Math.max(balance, 0));
+    balance -= prepayment;
+    if (balance < BALANCE_EPSILON) balance = 0;
+
+    totalInterest += interestPaid;
+    totalPaid += scheduledPayment + prepayment;
+    schedule.push({
+      year: k,
+      payment: scheduledPayment,
+      interestPaid,
+      principalPaid,
+      prepayment,
+      balance,
+      totalInterest,
+      date: start ? addPeriods(start, paymentFrequency, k).toISOString().split('T')[0] : undefined
+    });
+
+    // Re-amortizing spreads the lower balance over the remaining payments
+    if (prepayment > 0 && strategy === 'reamortize' && balance > 0) {
+      payment = getAnnuityPayment(balance, periodRate, totalPeriods - k);
+    }
+  }
+
+  // Without prepayments every payment is the annuity payment, so interest is N × PMT - P
+  const interestWithoutPrepayments = initialPayment * totalPeriods - principal;
+
+  return {
+    payment: initialPayment,
+    numberOfPayments: schedule.length,
+    totalInterest,
+    totalPaid,
+    interestSaved: Math.max(interestWithoutPrepayments - totalInterest, 0),
+    schedule,
+    formula: 'PMT = P × i / (1 - (1 + i)^(-N)), where i = r/m and N = m × t'
+  };
+};
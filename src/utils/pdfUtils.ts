@@ -0,0 +1,201 @@
+/**
+ * PDF Writer
+ *
+ * A small client-side PDF 1.4 writer for the calculation report: A4 pages with
+ * text in the standard Helvetica fonts, lines, rectangles and polylines. It
+ * covers only what the report draws, so no PDF library is needed.
+ *
+ * Coordinates are in points from the top-left corner of the page (the writer
+ * flips them to PDF's bottom-left origin). Text is written in WinAnsi
+ * encoding; characters outside it are replaced (₱ becomes "PHP ", Σ "sum").
+ */
+
+// A4 page size in points
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+// An RGB colour with components from 0 to 1
+export type PdfColor = [number, number, number];
+
+export interface PdfTextOptions {
+  size?: number;            // Font size in points (defaults to 10)
+  bold?: boolean;           // Use Helvetica-Bold
+  align?: 'left' | 'right' | 'center'; // Alignment relative to x
+  color?: PdfColor;
+}
+
+export interface PdfLineOptions {
+  width?: number;           // Line width in points (defaults to 0.5)
+  color?: PdfColor;
+}
+
+export interface PdfRectOptions {
+  fill?: PdfColor;          // Fill colour (no fill when omitted)
+  stroke?: PdfColor;        // Outline colour (no outline when omitted)
+  width?: number;           // Outline width in points
+}
+
+export interface PdfDocument {
+  addPage: () => void;
+  setPage: (index: number) => void;
+  getPageCount: () => number;
+  text: (x: number, y: number, text: string, options?: PdfTextOptions) => void;
+  line: (x1: number, y1: number, x2: number, y2: number, options?: PdfLineOptions) => void;
+  polyline: (points: [number, number][], options?: PdfLineOptions) => void;
+  rect: (x: number, y: number, width: number, height: number, options?: PdfRectOptions) => void;
+  getTextWidth: (text: string, size?: number, bold?: boolean) => number;
+  output: () => Uint8Array;
+}
+
+// Helvetica glyph widths (per 1000 units of font size) for characters 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+// Characters outside WinAnsi, and the WinAnsi code or text written in their place
+const CHARACTER_REPLACEMENTS: Record<string, string> = {
+  '₱': 'PHP ',
+  '–': '\x96',
+  '—': '\x97',
+  '−': '-',
+  '‘': '\x91',
+  '’': '\x92',
+  '“': '\x93',
+  '”': '\x94',
+  '…': '\x85',
+  'Σ': 'sum ',
+  'Π': 'prod ',
+  '≈': '~'
+};
+
+// Convert text to WinAnsi character codes (one char per byte)
+const toWinAnsi = (text: string): string => {
+  return Array.from(text).map(char => {
+    if (char in CHARACTER_REPLACEMENTS) return CHARACTER_REPLACEMENTS[char];
+    const code = char.charCodeAt(0);
+    return code < 256 ? char : '?';
+  }).join('');
+};
+
+// Escape a WinAnsi string for a PDF string literal
+const escapePdfString = (text: string) => text.replace(/[\\()]/g, match => `\\${match}`);
+
+const formatNumber = (value: number) => Number(value.toFixed(2)).toString();
+
+const toColorOperands = ([r, g, b]: PdfColor) => `${formatNumber(r)} ${formatNumber(g)} ${formatNumber(b)}`;
+
+/**
+ * Creates an empty PDF document with one A4 page
+ * @returns Functions to draw on the pages and to write the finished file
+ */
+export const createPdfDocument = (): PdfDocument => {
+  const pages: string[][] = [[]];
+  let current = 0;
+
+  const flipY = (y: number) => formatNumber(PAGE_HEIGHT - y);
+  const draw = (operators: string) => pages[current].push(operators);
+
+  // Width of text in points; Helvetica-Bold runs about 5% wider than the regular widths
+  const getTextWidth = (text: string, size = 10, bold = false) => {
+    const units = Array.from(toWinAnsi(text)).reduce((total, char) => {
+      const code = char.charCodeAt(0);
+      return total + (code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556);
+    }, 0);
+    return (units * size / 1000) * (bold ? 1.05 : 1);
+  };
+
+  const text = (x: number, y: number, value: string, options: PdfTextOptions = {}) => {
+    const { size = 10, bold = false, align = 'left', color = [0, 0, 0] } = options;
+    const width = getTextWidth(value, size, bold);
+    const left = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+    draw(`BT ${toColorOperands(color)} rg /${bold ? 'F2' : 'F1'} ${size} Tf ${formatNumber(left)} ${flipY(y)} Td (${escapePdfString(toWinAnsi(value))}) Tj ET`);
+  };
+
+  const polyline = (points: [number, number][], options: PdfLineOptions = {}) => {
+    if (points.length < 2) return;
+    const { width = 0.5, color = [0, 0, 0] } = options;
+    const path = points
+      .map(([x, y], index) => `${formatNumber(x)} ${flipY(y)} ${index === 0 ? 'm' : 'l'}`)
+      .join(' ');
+    draw(`q ${toColorOperands(color)} RG ${formatNumber(width)} w 1 j ${path} S Q`);
+  };
+
+  const line = (x1: number, y1: number, x2: number, y2: number, options: PdfLineOptions = {}) => {
+    polyline([[x1, y1], [x2, y2]], options);
+  };
+
+  const rect = (x: number, y: number, width: number, height: number, options: PdfRectOptions = {}) => {
+    const { fill, stroke, width: lineWidth = 0.5 } = options;
+    if (!fill && !stroke) return;
+    const operators = [
+      'q',
+      fill ? `${toColorOperands(fill)} rg` : '',
+      stroke ? `${toColorOperands(stroke)} RG ${formatNumber(lineWidth)} w` : '',
+      `${formatNumber(x)} ${flipY(y + height)} ${formatNumber(width)} ${formatNumber(height)} re`,
+      fill && stroke ? 'B' : fill ? 'f' : 'S',
+      'Q'
+    ];
+    draw(operators.filter(Boolean).join(' '));
+  };
+
+  // Assemble the file: catalog, page tree, fonts, then each page and its content stream
+  const output = () => {
+    const objects: string[] = [];
+    const pageCount = pages.length;
+    const firstPageObject = 5;
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pages.map((_, index) => `${firstPageObject + index * 2} 0 R`).join(' ')}] /Count ${pageCount} >>`;
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+    pages.forEach((operators, index) => {
+      const pageObject = firstPageObject + index * 2;
+      const content = operators.join('\n');
+      objects[pageObject] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] `
+        + `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageObject + 1} 0 R >>`;
+      objects[pageObject + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+    });
+
+    // Every character is one byte, so string lengths are byte offsets
+    let file = '%PDF-1.4\n%\xE2\xE3\xCF\xD3\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = file.length;
+      file += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+    const xrefOffset = file.length;
+    file += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      file += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    file += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    const bytes = new Uint8Array(file.length);
+    for (let i = 0; i < file.length; i++) {
+      bytes[i] = file.charCodeAt(i) & 0xff;
+    }
+    return bytes;
+  };
+
+  return {
+    addPage: () => {
+      pages.push([]);
+      current = pages.length - 1;
+    },
+    setPage: (index: number) => {
+      current = index;
+    },
+    getPageCount: () => pages.length,
+    text,
+    line,
+    polyline,
+    rect,
+    getTextWidth,
+    output
+  };
+};
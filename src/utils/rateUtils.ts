@@ -0,0 +1,97 @@
+import { CompoundingFrequency, ContributionFrequency, DayCountMethod, getFrequencyValue, isContinuous } from "@/utils/calculatorUtils";
+
+/**
+ * Rate Conversion
+ *
+ * Converts a nominal annual rate (APR) compounded at one frequency into its
+ * effective annual rate (EAR, also called APY), and back again, so rates quoted
+ * with different compounding can be compared like for like. All rates are
+ * percentages.
+ *
+ *   EAR = (1 + r/n)^n - 1        (continuous: EAR = e^r - 1)
+ *   r   = n((1 + EAR)^(1/n) - 1) (continuous: r = ln(1 + EAR))
+ */
+
+// The discrete compounding frequencies compared side by side
+export const COMPARISON_FREQUENCIES: ContributionFrequency[] = [
+  'annually',
+  'semi-annually',
+  'quarterly',
+  'monthly',
+  'weekly',
+  'daily'
+];
+
+// Display names for each compounding frequency
+export const FREQUENCY_LABELS: Record<CompoundingFrequency, string> = {
+  'annually': 'Annually',
+  'semi-annually': 'Semi-Annually',
+  'quarterly': 'Quarterly',
+  'monthly': 'Monthly',
+  'weekly': 'Weekly',
+  'daily': 'Daily',
+  'continuously': 'Continuously'
+};
+
+// Effective annual rate (EAR/APY) of a nominal rate compounded at the given frequency
+export const getEffectiveAnnualRate = (
+  nominalRate: number,
+  frequency: CompoundingFrequency,
+  dayCountMethod?: DayCountMethod
+): number => {
+  if (isContinuous(frequency)) {
+    return (Math.exp(nominalRate / 100) - 1) * 100;
+  }
+  const n = getFrequencyValue(frequency, dayCountMethod);
+  return (Math.pow(1 + nominalRate / 100 / n, n) - 1) * 100;
+};
+
+// Nominal rate that, compounded at the given frequency, gives the effective annual rate
+export const getNominalRate = (
+  effectiveRate: number,
+  frequency: CompoundingFrequency,
+  dayCountMethod?: DayCountMethod
+): number => {
+  if (isContinuous(frequency)) {
+    return Math.log(1 + effectiveRate / 100) * 100;
+  }
+  const n = getFrequencyValue(frequency, dayCountMethod);
+  return (Math.pow(1 + effectiveRate / 100, 1 / n) - 1) * n * 100;
+};
+
+// Convert a nominal rate from one compounding frequency to the equivalent rate at another
+export const convertNominalRate = (
+  nominalRate: number,
+  from: CompoundingFrequency,
+  to: CompoundingFrequency,
+  dayCountMethod?: DayCountMethod
+): number => {
+  return getNominalRate(getEffectiveAnnualRate(nominalRate, from, dayCountMethod), to, dayCountMethod);
+};
+
+// Equivalent continuously compounded rate of a nominal rate
+export const toContinuousRate = (
+  nominalRate: number,
+  frequency: CompoundingFrequency,
+  dayCountMethod?: DayCountMethod
+): number => {
+  return convertNominalRate(nominalRate, frequency, 'continuously', dayCountMethod);
+};
+
+// Nominal rate at the given frequency equivalent to a continuously compounded rate
+export const fromContinuousRate = (
+  continuousRate: number,
+  frequency: CompoundingFrequency,
+  dayCountMethod?: DayCountMethod
+): number => {
+  return convertNominalRate(continuousRate, 'continuously', frequency, dayCountMethod);
+};
+
+// Interest rate applied each compounding period (as percentage)
+export const getPeriodicRate = (
+  nominalRate: number,
+  frequency: ContributionFrequency,
+  dayCountMethod?: DayCountMethod
+): number => {
+  return nominalRate / getFrequencyValue(frequency, dayCountMethod);
+};
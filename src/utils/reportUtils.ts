@@ -0,0 +1,315 @@
+import { CalculationParams, CalculationResult, YearlyBreakdown, formatCurrency, getPeriodsPerYear } from "@/utils/calculatorUtils";
+import { BreakdownGroup, groupBreakdown } from "@/utils/breakdownUtils";
+import { downloadFile, getParameterSummary } from "@/utils/exportUtils";
+import { PAGE_HEIGHT, PAGE_WIDTH, PdfColor, PdfDocument, createPdfDocument } from "@/utils/pdfUtils";
+import { getEffectiveAnnualRate } from "@/utils/rateUtils";
+
+/**
+ * Calculation Report
+ *
+ * Lays out a printable PDF report of a calculation, generated in the browser:
+ * 1. Inputs - Every parameter that was set
+ * 2. Summary - Final amount, interest, deposits, tax, withdrawals and real value
+ * 3. Formula - The formula and the step-by-step derivation
+ * 4. Growth Chart - Balance and money put in over the term
+ * 5. Breakdown - The schedule, continued across pages with the header repeated
+ *
+ * Schedules longer than MAX_REPORT_ROWS periods are rolled up by year in the
+ * report so it stays a readable length.
+ */
+
+// Formula and derivation to print, as plain text
+export interface ReportFormula {
+  formula: string;
+  steps: string[];
+}
+
+// Page layout, in points
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_HEIGHT = 24;
+const CONTENT_BOTTOM = PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT;
+const TABLE_ROW_HEIGHT = 14;
+
+// Longest schedule printed period by period
+const MAX_REPORT_ROWS = 600;
+
+const TEXT_MUTED: PdfColor = [0.42, 0.45, 0.5];
+const RULE_COLOR: PdfColor = [0.85, 0.86, 0.88];
+const HEADER_FILL: PdfColor = [0.95, 0.96, 0.97];
+const BALANCE_COLOR: PdfColor = [0.15, 0.39, 0.92];
+const INVESTED_COLOR: PdfColor = [0.13, 0.7, 0.36];
+
+// A column of the breakdown table
+interface ReportColumn {
+  label: string;
+  align: 'left' | 'right';
+  getValue: (row: YearlyBreakdown | BreakdownGroup) => string;
+}
+
+// Wrap text into lines no wider than the given width
+const wrapText = (doc: PdfDocument, text: string, width: number, size: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  text.split(/\s+/).forEach(word => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && doc.getTextWidth(candidate, size) > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  });
+  if (line) lines.push(line);
+  return lines;
+};
+
+// Whole-peso amount for chart axis labels
+const formatAxisAmount = (value: number) => formatCurrency(value).replace(/\.\d+$/, '');
+
+/**
+ * Builds the PDF report of a calculation
+ * @param params - The calculation parameters
+ * @param result - The calculation result
+ * @param formula - The formula and step-by-step derivation, as plain text
+ * @returns The PDF file contents
+ */
+export const createCalculationReport = (params: CalculationParams, result: CalculationResult, formula: ReportFormula): Uint8Array => {
+  const doc = createPdfDocument();
+  let y = MARGIN;
+
+  // Start a new page when the next block doesn't fit on this one
+  const ensureSpace = (height: number): boolean => {
+    if (y + height <= CONTENT_BOTTOM) return false;
+    doc.addPage();
+    y = MARGIN;
+    return true;
+  };
+
+  const heading = (title: string) => {
+    ensureSpace(40);
+    y += 10;
+    doc.text(MARGIN, y + 12, title, { size: 13, bold: true });
+    y += 18;
+    doc.line(MARGIN, y, MARGIN + CONTENT_WIDTH, y, { color: RULE_COLOR });
+    y += 10;
+  };
+
+  const labelValueRows = (rows: [string, string][]) => {
+    rows.forEach(([label, value]) => {
+      const lines = wrapText(doc, value, CONTENT_WIDTH - 150, 10);
+      ensureSpace(lines.length * 14);
+      doc.text(MARGIN, y + 10, label, { color: TEXT_MUTED });
+      lines.forEach((line, index) => doc.text(MARGIN + 150, y + 10 + index * 14, line));
+      y += lines.length * 14;
+    });
+  };
+
+  // Title
+  doc.text(MARGIN, y + 18, 'Compound Interest Calculation Report', { size: 18, bold: true });
+  y += 26;
+  doc.text(MARGIN, y + 10, `Generated ${new Date().toISOString().split('T')[0]}`, { color: TEXT_MUTED });
+  y += 14;
+
+  // 1. Inputs (the formula gets its own section)
+  heading('Inputs');
+  labelValueRows(getParameterSummary(params, result).filter(([label]) => label !== 'Formula'));
+
+  // 2. Summary metrics
+  heading('Summary');
+  const summary: [string, string][] = [
+    ['Final Amount', formatCurrency(result.finalAmount)],
+    ['Total Interest', formatCurrency(result.totalInterest)],
+    ['Effective Annual Rate', `${getEffectiveAnnualRate(params.rate, params.frequency, params.dayCountMethod).toFixed(4)}%`]
+  ];
+  if (result.totalContributions > 0) summary.push(['Total Contributions', formatCurrency(result.totalContributions)]);
+  if (result.totalTax !== undefined) {
+    summary.push(['Tax Withheld', formatCurrency(result.totalTax)]);
+    summary.push(['Net Interest', formatCurrency(result.netInterest)]);
+  }
+  if (result.totalWithdrawals !== undefined) {
+    summary.push(['Total Withdrawals', formatCurrency(result.totalWithdrawals)]);
+    summary.push(['Balance Runs Out', result.depletionPeriod === undefined
+      ? 'Not within the term'
+      : `Period ${result.depletionPeriod}${result.depletionDate ? ` (${result.depletionDate})` : ''}`]);
+  }
+  if (result.realFinalAmount !== undefined) {
+    summary.push(["Final Amount in Today's Pesos", formatCurrency(result.realFinalAmount)]);
+    summary.push(['Real Rate of Return', `${result.realRate.toFixed(2)}%`]);
+  }
+  labelValueRows(summary);
+
+  // 3. Formula and step-by-step derivation
+  heading('Formula');
+  wrapText(doc, formula.formula, CONTENT_WIDTH, 10).forEach(line => {
+    ensureSpace(14);
+    doc.text(MARGIN, y + 10, line, { bold: true });
+    y += 14;
+  });
+  y += 6;
+  formula.steps.forEach((step, index) => {
+    const lines = wrapText(doc, step, CONTENT_WIDTH - 50, 10);
+    ensureSpace(lines.length * 14);
+    doc.text(MARGIN, y + 10, `Step ${index + 1}:`, { color: TEXT_MUTED });
+    lines.forEach((line, lineIndex) => doc.text(MARGIN + 50, y + 10 + lineIndex * 14, line));
+    y += lines.length * 14;
+  });
+
+  // 4. Growth chart, moving to a new page first when the heading and chart don't fit together
+  ensureSpace(40 + GROWTH_CHART_HEIGHT);
+  heading('Growth Over Time');
+  drawGrowthChart(doc, params, result, y, ensureSpace);
+  y += GROWTH_CHART_HEIGHT;
+
+  // 5. Breakdown table, rolled up by year when the schedule is long
+  const breakdown = result.yearlyBreakdown;
+  const isRolledUp = breakdown.length > MAX_REPORT_ROWS;
+  const rows: (YearlyBreakdown | BreakdownGroup)[] = isRolledUp
+    ? groupBreakdown(breakdown, 'year', getPeriodsPerYear(params.frequency, params.dayCountMethod))
+    : breakdown;
+  heading(isRolledUp ? 'Breakdown by Year' : 'Breakdown');
+  if (isRolledUp) {
+    doc.text(MARGIN, y + 10, `${breakdown.length} periods rolled up by year; export the schedule for every period.`, { color: TEXT_MUTED });
+    y += 18;
+  }
+  drawBreakdownTable(doc, params, result, rows, () => y, next => { y = next; }, ensureSpace);
+
+  // Footer on every page
+  const pageCount = doc.getPageCount();
+  for (let page = 0; page < pageCount; page++) {
+    doc.setPage(page);
+    doc.line(MARGIN, PAGE_HEIGHT - MARGIN - 12, MARGIN + CONTENT_WIDTH, PAGE_HEIGHT - MARGIN - 12, { color: RULE_COLOR });
+    doc.text(MARGIN, PAGE_HEIGHT - MARGIN, 'Compound Interest Calculator', { size: 8, color: TEXT_MUTED });
+    doc.text(MARGIN + CONTENT_WIDTH, PAGE_HEIGHT - MARGIN, `Page ${page + 1} of ${pageCount}`, { size: 8, color: TEXT_MUTED, align: 'right' });
+  }
+
+  return doc.output();
+};
+
+// Height of the chart block, including its axis labels and legend
+const GROWTH_CHART_HEIGHT = 230;
+
+// Plot the balance and the money put in (principal + contributions - withdrawals) per period
+const drawGrowthChart = (
+  doc: PdfDocument,
+  params: CalculationParams,
+  result: CalculationResult,
+  top: number,
+  ensureSpace: (height: number) => boolean
+) => {
+  if (ensureSpace(GROWTH_CHART_HEIGHT)) top = MARGIN;
+
+  const plotLeft = MARGIN + 70;
+  const plotRight = MARGIN + CONTENT_WIDTH - 10;
+  const plotTop = top + 10;
+  const plotBottom = top + 180;
+  const breakdown = result.yearlyBreakdown;
+  const points = [
+    { period: 0, date: params.startDate?.toISOString().split('T')[0], balance: params.principal, invested: params.principal },
+    ...breakdown.map(row => ({
+      period: row.year,
+      date: row.date,
+      balance: row.amount,
+      invested: Math.max(params.principal + row.totalContributions - (row.totalWithdrawals ?? 0), 0)
+    }))
+  ];
+  // Keep at most about 400 points so long daily schedules stay light
+  const step = Math.max(Math.ceil(points.length / 400), 1);
+  const sampled = points.filter((_, index) => index % step === 0 || index === points.length - 1);
+
+  const maxValue = Math.max(...sampled.map(point => Math.max(point.balance, point.invested)), 1);
+  const lastPeriod = Math.max(points[points.length - 1].period, 1);
+  const toX = (period: number) => plotLeft + (period / lastPeriod) * (plotRight - plotLeft);
+  const toY = (value: number) => plotBottom - (value / maxValue) * (plotBottom - plotTop);
+
+  // Grid lines and amount labels
+  for (let i = 0; i <= 4; i++) {
+    const value = (maxValue * i) / 4;
+    doc.line(plotLeft, toY(value), plotRight, toY(value), { color: RULE_COLOR });
+    doc.text(plotLeft - 6, toY(value) + 3, formatAxisAmount(value), { size: 8, color: TEXT_MUTED, align: 'right' });
+  }
+
+  // Period (or date) labels along the bottom
+  for (let i = 0; i <= 4; i++) {
+    const point = points[Math.round(((points.length - 1) * i) / 4)];
+    const label = point.date ?? `Period ${point.period}`;
+    doc.text(toX(point.period), plotBottom + 14, label, { size: 8, color: TEXT_MUTED, align: i === 0 ? 'left' : i === 4 ? 'right' : 'center' });
+  }
+
+  doc.polyline(sampled.map(point => [toX(point.period), toY(point.invested)]), { width: 1.5, color: INVESTED_COLOR });
+  doc.polyline(sampled.map(point => [toX(point.period), toY(point.balance)]), { width: 1.5, color: BALANCE_COLOR });
+
+  // Legend
+  const legendY = plotBottom + 34;
+  doc.rect(plotLeft, legendY - 6, 10, 3, { fill: BALANCE_COLOR });
+  doc.text(plotLeft + 14, legendY, 'Balance', { size: 8 });
+  doc.rect(plotLeft + 70, legendY - 6, 10, 3, { fill: INVESTED_COLOR });
+  doc.text(plotLeft + 84, legendY, 'Principal & Contributions', { size: 8 });
+};
+
+// Draw the breakdown table, repeating the header row at the top of each page
+const drawBreakdownTable = (
+  doc: PdfDocument,
+  params: CalculationParams,
+  result: CalculationResult,
+  rows: (YearlyBreakdown | BreakdownGroup)[],
+  getY: () => number,
+  setY: (y: number) => void,
+  ensureSpace: (height: number) => boolean
+) => {
+  const hasDates = !!params.startDate;
+  const columns: ReportColumn[] = [
+    { label: 'Period', align: 'left', getValue: row => 'label' in row ? row.label : `${row.year}${row.isStub ? ' (stub)' : ''}` },
+    ...(hasDates ? [{ label: 'Date', align: 'left' as const, getValue: (row: YearlyBreakdown | BreakdownGroup) => ('label' in row ? row.endDate : row.date) ?? '' }] : []),
+    ...(result.totalContributions > 0 ? [{ label: 'Contribution', align: 'right' as const, getValue: (row: YearlyBreakdown | BreakdownGroup) => formatCurrency(row.contribution) }] : []),
+    ...(result.totalWithdrawals !== undefined ? [{ label: 'Withdrawal', align: 'right' as const, getValue: (row: YearlyBreakdown | BreakdownGroup) => formatCurrency(row.withdrawal ?? 0) }] : []),
+    { label: 'Balance', align: 'right', getValue: row => formatCurrency(row.amount) },
+    { label: 'Interest Earned', align: 'right', getValue: row => formatCurrency(row.interestEarned) },
+    ...(result.totalTax !== undefined ? [{ label: 'Tax Withheld', align: 'right' as const, getValue: (row: YearlyBreakdown | BreakdownGroup) => formatCurrency(row.taxWithheld ?? 0) }] : []),
+    {
+      label: 'Cumulative Interest',
+      align: 'right',
+      getValue: row => formatCurrency(row.amount + (row.totalTaxWithheld ?? 0) + (row.totalWithdrawals ?? 0) - params.principal - row.totalContributions)
+    }
+  ];
+  const columnWidth = CONTENT_WIDTH / columns.length;
+
+  const drawRow = (values: string[], options: { bold?: boolean; fill?: PdfColor }) => {
+    const y = getY();
+    if (options.fill) doc.rect(MARGIN, y, CONTENT_WIDTH, TABLE_ROW_HEIGHT, { fill: options.fill });
+    values.forEach((value, index) => {
+      const x = columns[index].align === 'right'
+        ? MARGIN + columnWidth * (index + 1) - 4
+        : MARGIN + columnWidth * index + 4;
+      doc.text(x, y + 10, value, { size: 8, bold: options.bold, align: columns[index].align });
+    });
+    doc.line(MARGIN, y + TABLE_ROW_HEIGHT, MARGIN + CONTENT_WIDTH, y + TABLE_ROW_HEIGHT, { color: RULE_COLOR, width: 0.25 });
+    setY(y + TABLE_ROW_HEIGHT);
+  };
+
+  const drawHeader = () => drawRow(columns.map(column => column.label), { bold: true, fill: HEADER_FILL });
+
+  ensureSpace(TABLE_ROW_HEIGHT * 3);
+  drawHeader();
+  drawRow(columns.map(column => {
+    if (column.label === 'Period') return '0';
+    if (column.label === 'Date') return params.startDate?.toISOString().split('T')[0] ?? '';
+    if (column.label === 'Balance') return formatCurrency(params.principal);
+    return formatCurrency(0);
+  }), {});
+  rows.forEach(row => {
+    if (ensureSpace(TABLE_ROW_HEIGHT)) drawHeader();
+    drawRow(columns.map(column => column.getValue(row)), {});
+  });
+};
+
+/**
+ * Builds and downloads the PDF report of a calculation
+ * @param params - The calculation parameters
+ * @param result - The calculation result
+ * @param formula - The formula and step-by-step derivation, as plain text
+ */
+export const downloadCalculationReport = (params: CalculationParams, result: CalculationResult, formula: ReportFormula) => {
+  const report = createCalculationReport(params, result, formula);
+  downloadFile(report, `compound-interest-report-${new Date().toISOString().split('T')[0]}.pdf`, 'application/pdf');
+};
@@ -0,0 +1,185 @@
+import { CalculationHistory, generateId, isUuid } from "@/utils/calculatorUtils";
+import { createIndexedDbRepository } from "@/utils/repositories/indexedDbRepository";
+import { createLocalStorageRepository } from "@/utils/repositories/localStorageRepository";
+import { createMemoryRepository } from "@/utils/repositories/memoryRepository";
+import { createSupabaseRepository } from "@/utils/repositories/supabaseRepository";
+import { createSyncedRepository } from "@/utils/repositories/syncedRepository";
+
+/**
+ * Calculation Repository
+ *
+ * Where saved calculations live. Each backend implements the same interface,
+ * so the calculator and its history don't need to know whether items are kept
+ * in localStorage, IndexedDB, Supabase or only in memory.
+ *
+ * The backends are chosen with VITE_CALCULATION_STORAGE, a comma-separated
+ * list such as "indexedDB,supabase". The first backend is the local store; a
+ * second one is the remote store that changes are synced to through an outbox
+ * (see syncedRepository). Without the setting, calculations are kept in
+ * localStorage and synced to Supabase.
+ *
+ * Each account gets its own repository. Supabase only stores history for
+ * signed-in users, so anonymous visitors use the local backend alone (or
+ * localStorage when Supabase is the only one configured). On sign-in, the
+ * history saved anonymously on this device is moved into the account (see
+ * claimAnonymousHistory).
+ */
+
+export interface CalculationRepository {
+  /** Saved calculations, newest first */
+  list: () => Promise<CalculationHistory[]>;
+  /** Adds or replaces a calculation; resolves with the id it is stored under */
+  save: (item: CalculationHistory) => Promise<string>;
+  /** Removes one calculation by id */
+  delete: (id: string) => Promise<void>;
+  /** Removes every calculation */
+  clear: () => Promise<void>;
+  /** Ids of deleted calculations kept as tombstones, so other devices can drop their copies */
+  listDeletedIds?: () => Promise<string[]>;
+  /** Calls the listener when items change outside of these calls (e.g. after a sync) */
+  subscribe?: (listener: () => void) => () => void;
+  /** Stops background work (sync retries and connection listeners) once the repository is dropped */
+  dispose?: () => void;
+}
+
+export type StorageBackend = 'localStorage' | 'indexedDB' | 'supabase' | 'memory';
+
+export const STORAGE_BACKENDS: StorageBackend[] = ['localStorage', 'indexedDB', 'supabase', 'memory'];
+
+const DEFAULT_BACKENDS: StorageBackend[] = ['localStorage', 'supabase'];
+
+// Sort saved calculations newest first
+export const sortNewestFirst = (items: CalculationHistory[]): CalculationHistory[] => {
+  return [...items].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+/**
+ * Creates the repository for one backend
+ * @param backend - The backend to use
+ * @param userId - Account the history belongs to, or null when anonymous
+ * @throws Error if Supabase is requested without a signed-in user
+ */
+export const createRepository = (backend: StorageBackend, userId: string | null = null): CalculationRepository => {
+  switch (backend) {
+    case 'localStorage':
+      return createLocalStorageRepository(userId);
+    case 'indexedDB':
+      return createIndexedDbRepository(userId);
+    case 'supabase':
+      if (!userId) throw new Error('Supabase storage needs a signed-in user');
+      return createSupabaseRepository(userId);
+    case 'memory':
+      return createMemoryRepository();
+  }
+};
+
+/**
+ * Reads the configured backends, ignoring unknown names
+ * @param setting - Comma-separated backend names
+ * @returns The backends in order, or the defaults when none are valid
+ */
+export const parseStorageSetting = (setting: string | undefined): StorageBackend[] => {
+  const backends = (setting ?? '')
+    .split(',')
+    .map(name => name.trim())
+    .filter((name): name is StorageBackend => {
+      if (name && !STORAGE_BACKENDS.includes(name as StorageBackend)) {
+        console.warn(`Unknown calculation storage backend "${name}"`);
+        return false;
+      }
+      return !!name;
+    });
+  return backends.length > 0 ? Array.from(new Set(backends)) : DEFAULT_BACKENDS;
+};
+
+// Repositories created so far, by user id ('' for anonymous use)
+const repositories = new Map<string, CalculationRepository>();
+let override: CalculationRepository | null = null;
+
+// Build the configured repository for one account
+const createConfiguredRepository = (userId: string | null): CalculationRepository => {
+  const [local, remote, ...unused] = parseStorageSetting(import.meta.env.VITE_CALCULATION_STORAGE);
+  if (unused.length > 0) {
+    console.warn(`Calculation storage uses one local and one remote backend; ignoring ${unused.join(', ')}`);
+  }
+  if (!userId) {
+    return createRepository(local === 'supabase' ? 'localStorage' : local);
+  }
+  return remote
+    ? createSyncedRepository(createRepository(local, userId), createRepository(remote, userId), `calculationSyncOutbox:${userId}`)
+    : createRepository(local, userId);
+};
+
+// Account whose repository was handed out last ('' for anonymous use)
+let currentKey: string | null = null;
+
+// The cached repository for an account, created on first use
+const getCachedRepository = (userId: string | null): CalculationRepository => {
+  const key = userId ?? '';
+  if (!repositories.has(key)) {
+    repositories.set(key, createConfiguredRepository(userId));
+  }
+  return repositories.get(key);
+};
+
+/**
+ * Returns the repository chosen by configuration for an account, creating it on first use.
+ * Switching accounts or signing out disposes of the other accounts' repositories, so
+ * their syncs stop; the anonymous one has nothing running and is kept.
+ * @param userId - The signed-in user's id, or null when anonymous
+ */
+export const getCalculationRepository = (userId: string | null = null): CalculationRepository => {
+  if (override) return override;
+  const key = userId ?? '';
+  if (key !== currentKey) {
+    repositories.forEach((repository, cachedKey) => {
+      if (cachedKey === key || cachedKey === '') return;
+      repository.dispose?.();
+      repositories.delete(cachedKey);
+    });
+    currentKey = key;
+  }
+  return getCachedRepository(userId);
+};
+
+// Claims started so far, by user id, so each account claims at most once per visit
+const claims = new Map<string, Promise<number>>();
+
+/**
+ * Moves the history saved anonymously on this device into an account, so
+ * nothing saved before signing in (or before accounts existed) is lost. The
+ * items keep their ids and dates; ones saved by older versions get a UUID.
+ * The anonymous history is cleared afterwards, so later calls find nothing
+ * left to move.
+ * @param userId - The signed-in user's id
+ * @returns The number of calculations moved
+ */
+export const claimAnonymousHistory = (userId: string): Promise<number> => {
+  if (!claims.has(userId)) {
+    const claim = (async () => {
+      if (override) return 0;
+      // Fetched without switching accounts, so the signed-in account's sync keeps running
+      const anonymous = getCachedRepository(null);
+      const account = getCachedRepository(userId);
+      const items = await anonymous.list();
+      // Oldest first, so the account's history keeps the same order
+      for (const item of [...items].reverse()) {
+        await account.save({ ...item, id: isUuid(item.id) ? item.id : generateId(), syncStatus: undefined });
+      }
+      if (items.length > 0) await anonymous.clear();
+      return items.length;
+    })();
+    // Let a failed claim be tried again on the next sign-in
+    claim.catch(() => claims.delete(userId));
+    claims.set(userId, claim);
+  }
+  return claims.get(userId);
+};
+
+/**
+ * Replaces the configured repositories (e.g. with an in-memory one in tests)
+ * @param next - The repository to use, or null to go back to the configured ones
+ */
+export const setCalculationRepository = (next: CalculationRepository | null): void => {
+  override = next;
+};
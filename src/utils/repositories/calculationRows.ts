@@ -0,0 +1,154 @@
+import { Json, Tables, TablesInsert } from "@/integrations/supabase/types";
+import {
+  CalculationHistory,
+  COMPOUNDING_FREQUENCIES,
+  CONTRIBUTION_FREQUENCIES,
+  CONTRIBUTION_TIMINGS,
+  DAY_COUNT_METHODS,
+  RateChange,
+  STUB_METHODS,
+  STUB_POSITIONS,
+  TAX_WITHHOLDINGS,
+  TIME_UNITS,
+  WITHDRAWAL_TYPES
+} from "@/utils/calculatorUtils";
+
+/**
+ * Calculation Rows
+ *
+ * Maps history items to and from rows of the Supabase "calculations" table.
+ * The table's columns are snake_case and its option columns are plain text,
+ * so rows read back are checked before they reach the calculator: fromRow
+ * throws an Error naming the row and column of the first invalid value.
+ */
+
+// A row as read from the table, and the values written when saving one
+export type CalculationRow = Tables<'calculations'>;
+export type CalculationInsert = TablesInsert<'calculations'>;
+
+// Convert a date (or a date string restored from JSON) to an ISO timestamp
+const toTimestamp = (date: Date | string | null | undefined): string | null => {
+  return date ? new Date(date).toISOString() : null;
+};
+
+/**
+ * Converts a history item to a row for saving
+ * @param item - The history item
+ * @returns The row, keyed by column name
+ * @throws Error if a required amount is not a number
+ */
+export const toRow = (item: CalculationHistory): CalculationInsert => {
+  (['principal', 'rate', 'time', 'finalAmount', 'totalInterest'] as const).forEach(key => {
+    if (typeof item[key] !== 'number' || !isFinite(item[key])) {
+      throw new Error(`Calculation ${item.id}: "${key}" must be a number`);
+    }
+  });
+
+  return {
+    id: item.id,
+    principal: item.principal,
+    rate: item.rate,
+    rate_schedule: item.rateSchedule?.length ? item.rateSchedule.map(({ fromYear, rate }) => ({ fromYear, rate })) : null,
+    time: item.time,
+    time_unit: item.timeUnit ?? 'years',
+    frequency: item.frequency,
+    day_count_method: item.dayCountMethod ?? 'actual/365',
+    start_date: toTimestamp(item.startDate),
+    end_date: toTimestamp(item.endDate),
+    stub_position: item.stubPosition ?? 'back',
+    stub_method: item.stubMethod ?? 'compound',
+    contribution: item.contribution ?? 0,
+    contribution_frequency: item.contributionFrequency ?? null,
+    contribution_timing: item.contributionTiming ?? null,
+    total_contributions: item.totalContributions ?? 0,
+    inflation_rate: item.inflationRate || null,
+    tax_rate: item.taxRate ?? null,
+    tax_withholding: item.taxWithholding ?? 'exempt',
+    total_tax: item.totalTax ?? 0,
+    withdrawal: item.withdrawal || 0,
+    withdrawal_type: item.withdrawalType ?? null,
+    withdrawal_frequency: item.withdrawalFrequency ?? null,
+    withdrawal_start_period: item.withdrawalStartPeriod ?? null,
+    total_withdrawals: item.totalWithdrawals ?? 0,
+    final_amount: item.finalAmount,
+    total_interest: item.totalInterest,
+    formula: item.formula,
+    created_at: item.createdAt,
+    updated_at: item.updatedAt ?? item.createdAt
+  };
+};
+
+/**
+ * Converts a row read from the table to a history item
+ * @param row - The row
+ * @returns The history item, marked as synced
+ * @throws Error if a column holds a value the calculator doesn't accept
+ */
+export const fromRow = (row: CalculationRow): CalculationHistory => {
+  const fail = (column: string, problem: string): never => {
+    throw new Error(`Calculation ${row.id}: "${column}" ${problem}`);
+  };
+
+  const readNumber = (column: keyof CalculationRow, value: number | null): number | undefined => {
+    if (value === null) return undefined;
+    return typeof value === 'number' && isFinite(value) ? value : fail(column, `must be a number, not "${value}"`);
+  };
+
+  const readOption = <T extends string>(column: keyof CalculationRow, value: string | null, options: readonly T[]): T | undefined => {
+    if (value === null) return undefined;
+    return options.includes(value as T) ? value as T : fail(column, `must be one of ${options.join(', ')}, not "${value}"`);
+  };
+
+  const readDate = (column: keyof CalculationRow, value: string | null): Date | null => {
+    if (value === null) return null;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? fail(column, `must be a timestamp, not "${value}"`) : date;
+  };
+
+  const readRateSchedule = (value: Json | null): RateChange[] | undefined => {
+    if (value === null) return undefined;
+    if (!Array.isArray(value)) return fail('rate_schedule', 'must be a list of rate changes');
+    return value.map(change => {
+      const { fromYear, rate } = (change ?? {}) as Record<string, Json>;
+      return typeof fromYear === 'number' && typeof rate === 'number'
+        ? { fromYear, rate }
+        : fail('rate_schedule', `has an invalid rate change: ${JSON.stringify(change)}`);
+    });
+  };
+
+  if (readDate('created_at', row.created_at) === null) fail('created_at', 'is missing');
+
+  return {
+    id: row.id,
+    principal: readNumber('principal', row.principal),
+    rate: readNumber('rate', row.rate),
+    rateSchedule: readRateSchedule(row.rate_schedule),
+    time: readNumber('time', row.time),
+    timeUnit: readOption('time_unit', row.time_unit, TIME_UNITS) ?? 'years',
+    frequency: readOption('frequency', row.frequency, COMPOUNDING_FREQUENCIES),
+    dayCountMethod: readOption('day_count_method', row.day_count_method, DAY_COUNT_METHODS),
+    startDate: readDate('start_date', row.start_date),
+    endDate: readDate('end_date', row.end_date),
+    stubPosition: readOption('stub_position', row.stub_position, STUB_POSITIONS),
+    stubMethod: readOption('stub_method', row.stub_method, STUB_METHODS),
+    contribution: readNumber('contribution', row.contribution),
+    contributionFrequency: readOption('contribution_frequency', row.contribution_frequency, CONTRIBUTION_FREQUENCIES),
+    contributionTiming: readOption('contribution_timing', row.contribution_timing, CONTRIBUTION_TIMINGS),
+    inflationRate: readNumber('inflation_rate', row.inflation_rate),
+    taxRate: readNumber('tax_rate', row.tax_rate),
+    taxWithholding: readOption('tax_withholding', row.tax_withholding, TAX_WITHHOLDINGS) ?? 'exempt',
+    withdrawal: readNumber('withdrawal', row.withdrawal) ?? 0,
+    withdrawalType: readOption('withdrawal_type', row.withdrawal_type, WITHDRAWAL_TYPES),
+    withdrawalFrequency: readOption('withdrawal_frequency', row.withdrawal_frequency, CONTRIBUTION_FREQUENCIES),
+    withdrawalStartPeriod: readNumber('withdrawal_start_period', row.withdrawal_start_period),
+    finalAmount: readNumber('final_amount', row.final_amount),
+    totalInterest: readNumber('total_interest', row.total_interest),
+    totalContributions: readNumber('total_contributions', row.total_contributions),
+    totalTax: readNumber('total_tax', row.total_tax) ?? 0,
+    totalWithdrawals: readNumber('total_withdrawals', row.total_withdrawals) ?? 0,
+    formula: row.formula,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    syncStatus: 'synced'
+  };
+};
@@ -0,0 +1,76 @@
+import { CalculationHistory } from "@/utils/calculatorUtils";
+import { CalculationRepository, sortNewestFirst } from "@/utils/repositories/calculationRepository";
+
+const DATABASE_NAME = 'compound-interest-calculator';
+const DATABASE_VERSION = 1;
+const STORE_NAME = 'calculations';
+
+// Wrap an IndexedDB request in a promise
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Open the database, creating the calculations store on first use
+const openDatabase = (name: string): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+    const request = indexedDB.open(name, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Keeps calculations in an IndexedDB object store, in a separate database for
+ * each signed-in user. Items are stored as structured clones, so dates stay
+ * Date objects.
+ * @param userId - Account the history belongs to, or null when anonymous
+ */
+export const createIndexedDbRepository = (userId: string | null = null): CalculationRepository => {
+  const name = userId ? `${DATABASE_NAME}:${userId}` : DATABASE_NAME;
+  let database: Promise<IDBDatabase> | null = null;
+
+  // Run one request against the store and wait for its transaction to finish
+  const run = async <T>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    if (!database) {
+      database = openDatabase(name).catch(error => {
+        database = null;
+        throw error;
+      });
+    }
+    const transaction = (await database).transaction(STORE_NAME, mode);
+    const done = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+    const result = await toPromise(makeRequest(transaction.objectStore(STORE_NAME)));
+    await done;
+    return result;
+  };
+
+  return {
+    list: async () => sortNewestFirst(await run('readonly', store => store.getAll() as IDBRequest<CalculationHistory[]>)),
+    save: async (item) => {
+      await run('readwrite', store => store.put(item));
+      return item.id;
+    },
+    delete: async (id) => {
+      await run('readwrite', store => store.delete(id));
+    },
+    clear: async () => {
+      await run('readwrite', store => store.clear());
+    }
+  };
+};
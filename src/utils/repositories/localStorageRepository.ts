@@ -0,0 +1,42 @@
+import { CalculationHistory } from "@/utils/calculatorUtils";
+import { CalculationRepository, sortNewestFirst } from "@/utils/repositories/calculationRepository";
+
+const STORAGE_KEY = 'calculationHistory';
+
+// Read saved calculations (dates come back as strings)
+const readItems = (key: string): CalculationHistory[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(key) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch (error) {
+    console.error('Failed to read calculation history:', error);
+    return [];
+  }
+};
+
+const writeItems = (key: string, items: CalculationHistory[]) => {
+  localStorage.setItem(key, JSON.stringify(items));
+};
+
+/**
+ * Keeps calculations in the browser's localStorage under "calculationHistory"
+ * (or "calculationHistory:<user id>" for a signed-in user)
+ * @param userId - Account the history belongs to, or null when anonymous
+ */
+export const createLocalStorageRepository = (userId: string | null = null): CalculationRepository => {
+  const key = userId ? `${STORAGE_KEY}:${userId}` : STORAGE_KEY;
+
+  return {
+    list: async () => sortNewestFirst(readItems(key)),
+    save: async (item) => {
+      writeItems(key, [item, ...readItems(key).filter(existing => existing.id !== item.id)]);
+      return item.id;
+    },
+    delete: async (id) => {
+      writeItems(key, readItems(key).filter(item => item.id !== id));
+    },
+    clear: async () => {
+      writeItems(key, []);
+    }
+  };
+};
@@ -0,0 +1,25 @@
+import { CalculationHistory } from "@/utils/calculatorUtils";
+import { CalculationRepository, sortNewestFirst } from "@/utils/repositories/calculationRepository";
+
+/**
+ * Keeps calculations in memory only; they are gone when the page reloads.
+ * Useful for tests and for running the calculator without any storage.
+ * @param initial - Calculations to start with
+ */
+export const createMemoryRepository = (initial: CalculationHistory[] = []): CalculationRepository => {
+  let items = [...initial];
+
+  return {
+    list: async () => sortNewestFirst(items),
+    save: async (item) => {
+      items = [item, ...items.filter(existing => existing.id !== item.id)];
+      return item.id;
+    },
+    delete: async (id) => {
+      items = items.filter(item => item.id !== id);
+    },
+    clear: async () => {
+      items = [];
+    }
+  };
+};
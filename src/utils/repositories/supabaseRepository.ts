@@ -0,0 +1,93 @@
+import { supabase } from "@/integrations/supabase/client";
+import { CalculationRepository } from "@/utils/repositories/calculationRepository";
+import { fromRow, toRow } from "@/utils/repositories/calculationRows";
+
+/**
+ * Keeps a signed-in user's calculations in the Supabase "calculations" table.
+ * Rows are mapped to and from CalculationHistory by toRow and fromRow. Every
+ * query is limited to the user's own rows; row level security enforces the
+ * same on the server.
+ *
+ * Rows use the client-generated id, so saving the same item again (e.g. when
+ * a sync is retried) updates it instead of adding a copy. Deleted rows are
+ * kept as tombstones with deleted_at set.
+ */
+export const createSupabaseRepository = (userId: string): CalculationRepository => ({
+  list: async () => {
+    const { data, error } = await supabase
+      .from('calculations')
+      .select('*')
+      .eq('user_id', userId)
+      .is('deleted_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Supabase fetch error:', error);
+      throw error;
+    }
+
+    // Skip rows that fail validation rather than losing the whole history
+    return data.flatMap(row => {
+      try {
+        return [fromRow(row)];
+      } catch (error) {
+        console.error('Skipping invalid calculation row:', error);
+        return [];
+      }
+    });
+  },
+
+  save: async (item) => {
+    const { error } = await supabase.from('calculations').upsert([{ ...toRow(item), user_id: userId }], { onConflict: 'id' });
+
+    if (error) {
+      console.error('Supabase insert error:', error);
+      throw error;
+    }
+
+    return item.id;
+  },
+
+  delete: async (id) => {
+    const now = new Date().toISOString();
+    const { error } = await supabase
+      .from('calculations')
+      .update({ deleted_at: now, updated_at: now })
+      .eq('user_id', userId)
+      .eq('id', id);
+
+    if (error) {
+      console.error('Supabase delete error:', error);
+      throw error;
+    }
+  },
+
+  clear: async () => {
+    const now = new Date().toISOString();
+    const { error } = await supabase
+      .from('calculations')
+      .update({ deleted_at: now, updated_at: now })
+      .eq('user_id', userId)
+      .is('deleted_at', null);
+
+    if (error) {
+      console.error('Supabase delete error:', error);
+      throw error;
+    }
+  },
+
+  listDeletedIds: async () => {
+    const { data, error } = await supabase
+      .from('calculations')
+      .select('id')
+      .eq('user_id', userId)
+      .not('deleted_at', 'is', null);
+
+    if (error) {
+      console.error('Supabase fetch error:', error);
+      throw error;
+    }
+
+    return data.map(item => item.id);
+  }
+});
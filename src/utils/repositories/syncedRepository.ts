@@ -0,0 +1,293 @@
+import { CalculationHistory, generateId, isUuid } from "@/utils/calculatorUtils";
+import { CalculationRepository } from "@/utils/repositories/calculationRepository";
+
+/**
+ * Offline-first sync
+ *
+ * Changes are written to the local repository straight away and queued in an
+ * outbox for the remote one. The outbox is kept in localStorage and replayed
+ * in order whenever the browser is online; a change that fails is retried with
+ * exponential backoff, and after MAX_SYNC_ATTEMPTS it is marked as failed
+ * until the connection comes back. Each local item records its sync status.
+ *
+ * Items keep the same id in both stores. When the history is listed, the two
+ * are reconciled by id: remote items missing locally are copied in, the copy
+ * with the later updatedAt wins (last write wins), and items the remote store
+ * reports as deleted are dropped. A queued delete acts as a local tombstone,
+ * hiding the remote copy until the delete has been sent.
+ */
+
+const OUTBOX_KEY = 'calculationSyncOutbox';
+
+// Retry delays double from the base delay up to the maximum (in ms)
+const BASE_RETRY_DELAY = 2000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+
+// Attempts before a change is marked as failed
+export const MAX_SYNC_ATTEMPTS = 6;
+
+// A change waiting to be sent to the remote store
+export interface OutboxEntry {
+  id: string;             // Unique identifier
+  type: 'insert' | 'delete' | 'clear';
+  itemId?: string;        // Item to insert or delete
+  attempts: number;       // Failed attempts so far
+  nextAttemptAt: number;  // Earliest time to try again (ms since epoch)
+  failed?: boolean;       // Set once the attempts run out
+  lastError?: string;     // Message from the last failed attempt
+}
+
+// Delay before the next attempt after a number of failed attempts
+export const getRetryDelay = (attempts: number): number => {
+  return Math.min(BASE_RETRY_DELAY * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY);
+};
+
+const readOutbox = (key: string): OutboxEntry[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(key) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch (error) {
+    console.error('Failed to read the sync outbox:', error);
+    return [];
+  }
+};
+
+const writeOutbox = (key: string, entries: OutboxEntry[]) => {
+  localStorage.setItem(key, JSON.stringify(entries));
+};
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+// Time of an item's last change, for last-write-wins
+const getUpdatedTime = (item: CalculationHistory) => Date.parse(item.updatedAt ?? item.createdAt) || 0;
+
+/**
+ * Keeps calculations in a local repository and syncs them to a remote one
+ * @param local - The store used for reads and writes, available offline
+ * @param remote - The store changes are sent to
+ * @param outboxKey - localStorage key of the outbox (one per account)
+ */
+export const createSyncedRepository = (local: CalculationRepository, remote: CalculationRepository, outboxKey = OUTBOX_KEY): CalculationRepository => {
+  let outbox = readOutbox(outboxKey);
+  let running: Promise<unknown> = Promise.resolve();
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let disposed = false;
+  const listeners = new Set<() => void>();
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  const saveOutbox = (entries: OutboxEntry[]) => {
+    outbox = entries;
+    writeOutbox(outboxKey, entries);
+  };
+
+  const enqueue = (entry: Pick<OutboxEntry, 'type' | 'itemId'>) => {
+    saveOutbox([...outbox, { ...entry, id: generateId(), attempts: 0, nextAttemptAt: 0 }]);
+  };
+
+  // Run tasks one at a time so queue changes and replays never interleave
+  const serialize = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = running.then(task);
+    running = result.catch(() => undefined);
+    return result;
+  };
+
+  const findLocalItem = async (id: string) => (await local.list()).find(item => item.id === id);
+
+  const updateLocalItem = async (id: string, changes: Partial<CalculationHistory>) => {
+    const item = await findLocalItem(id);
+    if (item) await local.save({ ...item, ...changes });
+  };
+
+  // Wake up when the change replay stopped at is due. Failed changes are
+  // skipped, and later changes wait behind this one, so it sets the time.
+  const scheduleRetry = () => {
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+    if (disposed) return;
+    const next = outbox.find(entry => !entry.failed);
+    if (next && isOnline() && next.nextAttemptAt > Date.now()) {
+      retryTimer = setTimeout(sync, next.nextAttemptAt - Date.now());
+    }
+  };
+
+  // Send queued changes in order, stopping at the first one that has to wait
+  const replay = async () => {
+    let changed = false;
+    for (const entry of [...outbox]) {
+      if (entry.failed) continue;
+      if (!isOnline() || entry.nextAttemptAt > Date.now()) break;
+      try {
+        if (entry.type === 'insert') {
+          const item = await findLocalItem(entry.itemId);
+          if (item) {
+            await remote.save({ ...item, syncStatus: 'synced' });
+            await local.save({ ...item, syncStatus: 'synced' });
+          }
+        } else if (entry.type === 'delete') {
+          await remote.delete(entry.itemId);
+        } else {
+          await remote.clear();
+        }
+        saveOutbox(outbox.filter(queued => queued.id !== entry.id));
+        changed = true;
+      } catch (error) {
+        const attempts = entry.attempts + 1;
+        const failed = attempts >= MAX_SYNC_ATTEMPTS;
+        console.error(`Failed to sync calculation ${entry.type} (attempt ${attempts}):`, error);
+        saveOutbox(outbox.map(queued => queued.id === entry.id ? {
+          ...entry,
+          attempts,
+          failed,
+          nextAttemptAt: Date.now() + getRetryDelay(attempts),
+          lastError: error instanceof Error ? error.message : String(error)
+        } : queued));
+        if (failed && entry.type === 'insert') {
+          await updateLocalItem(entry.itemId, { syncStatus: 'failed' });
+          changed = true;
+        }
+        // Later changes wait for this one so they reach the remote store in order
+        if (!failed) break;
+      }
+    }
+    scheduleRetry();
+    if (changed) notify();
+  };
+
+  const sync = () => {
+    serialize(replay).catch(error => console.error('Failed to sync calculations:', error));
+  };
+
+  // Give waiting and failed changes a fresh start, e.g. when the connection comes back
+  const retryAll = () => serialize(async () => {
+    for (const entry of outbox) {
+      if (entry.failed && entry.type === 'insert') {
+        await updateLocalItem(entry.itemId, { syncStatus: 'pending' });
+      }
+    }
+    saveOutbox(outbox.map(entry => ({ ...entry, attempts: 0, failed: false, nextAttemptAt: 0 })));
+    notify();
+  }).then(sync);
+
+  const handleOnline = () => { void retryAll(); };
+  if (typeof window !== 'undefined') {
+    window.addEventListener('online', handleOnline);
+  }
+  // Pick up changes left over from an earlier visit
+  sync();
+
+  // Bring the local store up to date with the remote one (see the notes at the top)
+  const reconcile = async (remoteItems: CalculationHistory[], deletedIds: string[]) => {
+    const localItems = await local.list();
+    const localById = new Map(localItems.map(item => [item.id, item]));
+    const remoteIds = new Set(remoteItems.map(item => item.id));
+    const clearing = outbox.some(entry => entry.type === 'clear');
+    const tombstones = new Set(outbox.filter(entry => entry.type === 'delete').map(entry => entry.itemId));
+
+    // Items saved by older versions have local-only ids: adopt the remote copy
+    // saved at the same moment, or give the item a UUID and queue it
+    for (const item of localItems.filter(localItem => !isUuid(localItem.id))) {
+      await local.delete(item.id);
+      localById.delete(item.id);
+      const remoteCopy = remoteItems.find(remoteItem => !localById.has(remoteItem.id)
+        && Date.parse(remoteItem.createdAt) === Date.parse(item.createdAt));
+      if (remoteCopy) {
+        localById.set(remoteCopy.id, remoteCopy);
+        await local.save({ ...remoteCopy, syncStatus: 'synced' });
+      } else {
+        const moved: CalculationHistory = { ...item, id: generateId(), updatedAt: item.updatedAt ?? item.createdAt, syncStatus: 'pending' };
+        localById.set(moved.id, moved);
+        await local.save(moved);
+        enqueue({ type: 'insert', itemId: moved.id });
+      }
+    }
+
+    // Deleted on another device
+    for (const id of deletedIds) {
+      if (localById.has(id) && !remoteIds.has(id)) {
+        await local.delete(id);
+        localById.delete(id);
+        saveOutbox(outbox.filter(entry => entry.itemId !== id));
+      }
+    }
+
+    // New on another device, or changed there more recently
+    for (const remoteItem of remoteItems) {
+      if (clearing || tombstones.has(remoteItem.id)) continue;
+      const localItem = localById.get(remoteItem.id);
+      if (!localItem || getUpdatedTime(remoteItem) > getUpdatedTime(localItem)) {
+        await local.save({ ...remoteItem, syncStatus: 'synced' });
+        saveOutbox(outbox.filter(entry => !(entry.type === 'insert' && entry.itemId === remoteItem.id)));
+      }
+    }
+  };
+
+  return {
+    // The reconciled history; offline, the local items alone
+    list: async () => {
+      await serialize(async () => {
+        try {
+          const remoteItems = await remote.list();
+          const deletedIds = remote.listDeletedIds ? await remote.listDeletedIds() : [];
+          await reconcile(remoteItems, deletedIds);
+        } catch (error) {
+          console.error('Failed to load calculations from remote storage:', error);
+        }
+      });
+      sync();
+      return local.list();
+    },
+
+    save: async (item) => {
+      const id = await serialize(async () => {
+        const savedId = await local.save({ ...item, syncStatus: 'pending' });
+        enqueue({ type: 'insert', itemId: savedId });
+        return savedId;
+      });
+      sync();
+      return id;
+    },
+
+    delete: async (id) => {
+      await serialize(async () => {
+        await local.delete(id);
+        const pendingInsert = outbox.find(entry => entry.type === 'insert' && entry.itemId === id);
+        if (pendingInsert) {
+          // Never reached the remote store, so there is nothing to delete there
+          saveOutbox(outbox.filter(entry => entry !== pendingInsert));
+        } else {
+          enqueue({ type: 'delete', itemId: id });
+        }
+      });
+      sync();
+    },
+
+    clear: async () => {
+      await serialize(async () => {
+        await local.clear();
+        // Clearing the remote store covers every change queued before it
+        saveOutbox([]);
+        enqueue({ type: 'clear' });
+      });
+      sync();
+    },
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    // Stop retrying and listening for the connection (e.g. on sign-out); queued changes stay in the outbox
+    dispose: () => {
+      disposed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      retryTimer = null;
+      if (typeof window !== 'undefined') {
+        window.removeEventListener('online', handleOnline);
+      }
+      listeners.clear();
+    }
+  };
+};
@@ -0,0 +1,223 @@
+import {
+  CalculationParams,
+  COMPOUNDING_FREQUENCIES,
+  CONTRIBUTION_FREQUENCIES,
+  CONTRIBUTION_TIMINGS,
+  DAY_COUNT_METHODS,
+  RateChange,
+  STUB_METHODS,
+  STUB_POSITIONS,
+  TAX_WITHHOLDINGS,
+  TIME_UNITS,
+  WITHDRAWAL_TYPES,
+  getDaysBetween,
+  getTimeInYears,
+  validateOptionalParams
+} from "@/utils/calculatorUtils";
+import { MAX_TERM_YEARS } from "@/utils/solverUtils";
+
+/**
+ * Shareable Links
+ *
+ * Encodes a calculation, the calculator tab it came from and (for the
+ * missing-value calculator) the value that was solved for into URL query
+ * parameters, and reads them back. Each parameter keeps its CalculationParams
+ * name so links stay readable, e.g.
+ *
+ *   /?tab=calculator&principal=100000&rate=6&time=10&timeUnit=years&frequency=monthly
+ *
+ * Dates are written as YYYY-MM-DD and a rate schedule as fromYear:rate pairs
+ * ("rateSchedule=2:5.5,4:5"). Parsing checks every value and throws an Error
+ * describing the first bad one, so a malformed link can be reported instead of
+ * reaching the calculator.
+ */
+
+// Calculator tabs a link can open
+export type ShareTab = 'calculator' | 'missing-value';
+
+// Values the missing-value calculator can solve for
+export type SolveForField = 'principal' | 'rate' | 'time' | 'finalAmount' | 'contribution' | 'withdrawal';
+
+// Everything a link restores
+export interface ShareState {
+  tab: ShareTab;
+  solveFor?: SolveForField;
+  params: CalculationParams;
+}
+
+const SHARE_TABS: ShareTab[] = ['calculator', 'missing-value'];
+const SOLVE_FOR_FIELDS: SolveForField[] = ['principal', 'rate', 'time', 'finalAmount', 'contribution', 'withdrawal'];
+
+// Highest rate (as percentage) a link may set, as in the calculator form
+const MAX_RATE = 100;
+
+// Earliest year a link's dates may use (two-digit years would be read as 19xx)
+const MIN_DATE_YEAR = 1000;
+
+// Optional numeric parameters carried in a link
+const OPTIONAL_NUMBERS = ['targetAmount', 'contribution', 'inflationRate', 'taxRate', 'withdrawal', 'withdrawalStartPeriod'] as const;
+
+// Format a date as YYYY-MM-DD in local time (the calendar date the user picked)
+const formatDateParam = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Builds a link that reopens a calculation
+ * @param state - The calculation, tab and solved-for value to share
+ * @param baseUrl - Page the link points to (defaults to the current page)
+ * @returns The full URL
+ */
+export const createShareUrl = (state: ShareState, baseUrl = `${window.location.origin}${window.location.pathname}`): string => {
+  const { params } = state;
+  const query = new URLSearchParams();
+  query.set('tab', state.tab);
+  if (state.solveFor) query.set('solveFor', state.solveFor);
+
+  query.set('principal', String(params.principal));
+  query.set('rate', String(params.rate));
+  query.set('time', String(params.time));
+  query.set('timeUnit', params.timeUnit);
+  query.set('frequency', params.frequency);
+  if (params.dayCountMethod) query.set('dayCountMethod', params.dayCountMethod);
+  if (params.rateSchedule?.length > 0) {
+    query.set('rateSchedule', params.rateSchedule.map(change => `${change.fromYear}:${change.rate}`).join(','));
+  }
+  if (params.startDate) query.set('startDate', formatDateParam(params.startDate));
+  if (params.endDate) query.set('endDate', formatDateParam(params.endDate));
+  if (params.stubPosition) query.set('stubPosition', params.stubPosition);
+  if (params.stubMethod) query.set('stubMethod', params.stubMethod);
+  if (params.contributionFrequency) query.set('contributionFrequency', params.contributionFrequency);
+  if (params.contributionTiming) query.set('contributionTiming', params.contributionTiming);
+  if (params.taxWithholding) query.set('taxWithholding', params.taxWithholding);
+  if (params.withdrawalType) query.set('withdrawalType', params.withdrawalType);
+  if (params.withdrawalFrequency) query.set('withdrawalFrequency', params.withdrawalFrequency);
+  OPTIONAL_NUMBERS.forEach(key => {
+    const value = params[key];
+    if (typeof value === 'number' && !isNaN(value)) query.set(key, String(value));
+  });
+
+  return `${baseUrl}?${query.toString()}`;
+};
+
+/**
+ * Checks whether a query string carries a shared calculation
+ * @param search - The query string (e.g. window.location.search)
+ */
+export const hasShareParams = (search: string): boolean => {
+  return new URLSearchParams(search).has('tab');
+};
+
+/**
+ * Reads a shared calculation back from a query string
+ * @param search - The query string (e.g. window.location.search)
+ * @returns The calculation, tab and solved-for value the link describes
+ * @throws Error describing the first missing or invalid parameter
+ */
+export const parseShareParams = (search: string): ShareState => {
+  const query = new URLSearchParams(search);
+
+  const readNumber = (key: string, required: boolean, min = 0, max = Infinity): number | undefined => {
+    const raw = query.get(key);
+    if (raw === null || raw.trim() === '') {
+      if (required) throw new Error(`The link is missing "${key}".`);
+      return undefined;
+    }
+    const value = Number(raw);
+    if (!isFinite(value) || value < min || value > max) {
+      const range = max === Infinity ? `of at least ${min}` : `from ${min} to ${max}`;
+      throw new Error(`"${key}" must be a number ${range}, not "${raw}".`);
+    }
+    return value;
+  };
+
+  const readOption = <T extends string>(key: string, options: readonly T[], required = false): T | undefined => {
+    const raw = query.get(key);
+    if (raw === null) {
+      if (required) throw new Error(`The link is missing "${key}".`);
+      return undefined;
+    }
+    if (!options.includes(raw as T)) {
+      throw new Error(`"${key}" must be one of ${options.join(', ')}, not "${raw}".`);
+    }
+    return raw as T;
+  };
+
+  const readDate = (key: string): Date | null => {
+    const raw = query.get(key);
+    if (raw === null) return null;
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(raw);
+    const date = match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+    if (!date || date.getMonth() !== Number(match[2]) - 1 || date.getDate() !== Number(match[3])) {
+      throw new Error(`"${key}" must be a date written as YYYY-MM-DD, not "${raw}".`);
+    }
+    if (Number(match[1]) < MIN_DATE_YEAR) {
+      throw new Error(`"${key}" must be in the year ${MIN_DATE_YEAR} or later, not "${raw}".`);
+    }
+    return date;
+  };
+
+  const readRateSchedule = (): RateChange[] => {
+    const raw = query.get('rateSchedule');
+    if (!raw) return [];
+    return raw.split(',').map(pair => {
+      const [fromYear, rate] = pair.split(':').map(Number);
+      if (!isFinite(fromYear) || !isFinite(rate) || fromYear <= 0 || fromYear > MAX_TERM_YEARS || rate < 0 || rate > MAX_RATE) {
+        throw new Error(`"rateSchedule" entries must be written as fromYear:rate, with rates up to ${MAX_RATE}, not "${pair}".`);
+      }
+      return { fromYear, rate };
+    });
+  };
+
+  const tab = readOption('tab', SHARE_TABS, true);
+  const solveFor = readOption('solveFor', SOLVE_FOR_FIELDS, tab === 'missing-value');
+
+  const params: CalculationParams = {
+    principal: readNumber('principal', true),
+    rate: readNumber('rate', true, 0, MAX_RATE),
+    rateSchedule: readRateSchedule(),
+    time: readNumber('time', true),
+    timeUnit: readOption('timeUnit', TIME_UNITS, true),
+    frequency: readOption('frequency', COMPOUNDING_FREQUENCIES, true),
+    dayCountMethod: readOption('dayCountMethod', DAY_COUNT_METHODS),
+    startDate: readDate('startDate'),
+    endDate: readDate('endDate'),
+    stubPosition: readOption('stubPosition', STUB_POSITIONS),
+    stubMethod: readOption('stubMethod', STUB_METHODS),
+    targetAmount: readNumber('targetAmount', false),
+    contribution: readNumber('contribution', false),
+    contributionFrequency: readOption('contributionFrequency', CONTRIBUTION_FREQUENCIES),
+    contributionTiming: readOption('contributionTiming', CONTRIBUTION_TIMINGS),
+    inflationRate: readNumber('inflationRate', false, 0, MAX_RATE),
+    taxRate: readNumber('taxRate', false, 0, 100),
+    taxWithholding: readOption('taxWithholding', TAX_WITHHOLDINGS),
+    withdrawal: readNumber('withdrawal', false),
+    withdrawalType: readOption('withdrawalType', WITHDRAWAL_TYPES),
+    withdrawalFrequency: readOption('withdrawalFrequency', CONTRIBUTION_FREQUENCIES),
+    withdrawalStartPeriod: readNumber('withdrawalStartPeriod', false, 1)
+  };
+
+  // Leave out what the link doesn't set, so the form keeps its own defaults for those fields
+  (Object.keys(params) as (keyof CalculationParams)[]).forEach(key => {
+    if (params[key] === undefined) delete params[key];
+  });
+
+  // Hold the link to the calculator form's rules, so it can't load values the form would reject
+  const problem = validateOptionalParams(params);
+  if (problem) {
+    throw new Error(`${problem.description}.`);
+  }
+  if (params.startDate && params.endDate && params.endDate <= params.startDate) {
+    throw new Error('"endDate" must be after "startDate".');
+  }
+  // Every period of the term becomes a row, so very long terms would freeze the page
+  const isTooLong = params.startDate && params.endDate
+    ? getDaysBetween(params.startDate, params.endDate) > MAX_TERM_YEARS * 366
+    : getTimeInYears(params.time, params.timeUnit, params.dayCountMethod) > MAX_TERM_YEARS;
+  if (isTooLong) {
+    throw new Error(`The term cannot be longer than ${MAX_TERM_YEARS} years.`);
+  }
+
+  return { tab, solveFor: tab === 'missing-value' ? solveFor : undefined, params };
+};
@@ -0,0 +1,195 @@
+import { CalculationParams, calculateCompoundInterest, getDaysInYear } from "@/utils/calculatorUtils";
+
+/**
+ * Numerical Solver
+ *
+ * Solves for any single numeric field of CalculationParams so that the final amount
+ * reaches a target. Every trial value runs the full engine, so contributions,
+ * withdrawals, tax and rate schedules are all taken into account where the
+ * closed-form inversions in calculatorUtils no longer apply.
+ *
+ * The root is bracketed first (widening the search range when needed) and then
+ * refined with Brent's method, which falls back to bisection whenever the faster
+ * interpolation steps would leave the bracket.
+ */
+
+// Fields of CalculationParams the solver can search over
+export type SolvableField = 'principal' | 'rate' | 'time' | 'contribution' | 'withdrawal' | 'taxRate';
+
+// Outcome of a solve: converged, no value reaches the target, or it ran out of iterations
+export type SolveStatus = 'converged' | 'no-solution' | 'max-iterations';
+
+// Result of a numerical solve
+export interface SolveResult {
+  value: number;         // Solved value of the field (NaN when there is no solution)
+  status: SolveStatus;   // Whether the solve converged
+  iterations: number;    // Number of refinement steps taken
+  residual: number;      // Final amount minus the target at the solved value
+  message?: string;      // Explanation when the solve did not converge
+}
+
+// Options for tuning a solve
+export interface SolveOptions {
+  lower?: number;        // Lower end of the search range
+  upper?: number;        // Upper end of the search range
+  tolerance?: number;    // Acceptable difference from the target (in pesos)
+  maxIterations?: number; // Maximum number of refinement steps
+}
+
+// Human-readable names for solver messages
+const FIELD_LABELS: Record<SolvableField, string> = {
+  principal: 'principal',
+  rate: 'interest rate',
+  time: 'time period',
+  contribution: 'contribution',
+  withdrawal: 'withdrawal',
+  taxRate: 'tax rate'
+};
+
+// Times the upper end of the search range may be doubled while looking for a bracket
+const MAX_BRACKET_EXPANSIONS = 20;
+
+// Longest term (in years) a calculation may run for
+export const MAX_TERM_YEARS = 200;
+
+// Default search range for a field; rates are percentages and the time range covers a century
+const getDefaultBracket = (field: SolvableField, params: CalculationParams, targetAmount: number): [number, number] => {
+  switch (field) {
+    case 'rate':
+      return [0, 100];
+    case 'taxRate':
+      return [0, 100];
+    case 'time':
+      return [0, params.timeUnit === 'days' ? 100 * getDaysInYear(params.dayCountMethod) : 100];
+    default:
+      return [0, Math.max(targetAmount, params.principal || 0, 1)];
+  }
+};
+
+// Furthest the search range may be widened; long terms are capped because every trial
+// value runs the full period-by-period simulation
+const getMaxUpper = (field: SolvableField, params: CalculationParams): number => {
+  switch (field) {
+    case 'rate':
+      return 1000;
+    case 'taxRate':
+      return 100;
+    case 'time':
+      return params.timeUnit === 'days' ? MAX_TERM_YEARS * getDaysInYear(params.dayCountMethod) : MAX_TERM_YEARS;
+    default:
+      return Infinity;
+  }
+};
+
+// Solve for one field of the parameters so that the final amount equals the target
+export const solveForField = (
+  params: CalculationParams,
+  field: SolvableField,
+  targetAmount: number,
+  options: SolveOptions = {}
+): SolveResult => {
+  const tolerance = options.tolerance ?? 1e-6;
+  const maxIterations = options.maxIterations ?? 100;
+  const [defaultLower, defaultUpper] = getDefaultBracket(field, params, targetAmount);
+  const label = FIELD_LABELS[field];
+
+  // Difference between the final amount and the target for a trial value
+  const objective = (value: number): number =>
+    calculateCompoundInterest({ ...params, [field]: value }).finalAmount - targetAmount;
+
+  let a = options.lower ?? defaultLower;
+  let b = options.upper ?? defaultUpper;
+  let fa = objective(a);
+  let fb = objective(b);
+
+  if (!isFinite(targetAmount) || isNaN(fa)) {
+    return { value: NaN, status: 'no-solution', iterations: 0, residual: NaN, message: `The ${label} can't be solved from these inputs.` };
+  }
+  if (Math.abs(fa) <= tolerance) {
+    return { value: a, status: 'converged', iterations: 0, residual: fa };
+  }
+
+  // Widen the search range until the target is bracketed
+  const maxUpper = getMaxUpper(field, params);
+  for (let i = 0; fa * fb > 0 && options.upper === undefined && b < maxUpper && i < MAX_BRACKET_EXPANSIONS; i++) {
+    a = b;
+    fa = fb;
+    b = Math.min(b * 2, maxUpper);
+    fb = objective(b);
+  }
+  if (!(fa * fb <= 0)) {
+    return {
+      value: NaN,
+      status: 'no-solution',
+      iterations: 0,
+      residual: Math.abs(fa) < Math.abs(fb) ? fa : fb,
+      message: `No ${label} between ${options.lower ?? defaultLower} and ${b} reaches the target amount.`
+    };
+  }
+
+  // Brent's method: keep b as the best estimate and [b, c] as the bracket
+  let c = a;
+  let fc = fa;
+  let d = b - a;
+  let e = d;
+  for (let iteration = 1; iteration <= maxIterations; iteration++) {
+    if (fb * fc > 0) {
+      c = a;
+      fc = fa;
+      d = b - a;
+      e = d;
+    }
+    if (Math.abs(fc) < Math.abs(fb)) {
+      a = b; b = c; c = a;
+      fa = fb; fb = fc; fc = fa;
+    }
+
+    const xTolerance = 2 * Number.EPSILON * Math.abs(b) + 1e-12;
+    const midpoint = (c - b) / 2;
+    if (Math.abs(fb) <= tolerance || Math.abs(midpoint) <= xTolerance) {
+      return { value: b, status: 'converged', iterations: iteration, residual: fb };
+    }
+
+    if (Math.abs(e) >= xTolerance && Math.abs(fa) > Math.abs(fb)) {
+      // Try inverse quadratic interpolation (or the secant step with only two points)
+      const s = fb / fa;
+      let p: number;
+      let q: number;
+      if (a === c) {
+        p = 2 * midpoint * s;
+        q = 1 - s;
+      } else {
+        const r = fb / fc;
+        const t = fa / fc;
+        p = s * (2 * midpoint * t * (t - r) - (b - a) * (r - 1));
+        q = (t - 1) * (r - 1) * (s - 1);
+      }
+      if (p > 0) q = -q;
+      p = Math.abs(p);
+      // Accept the interpolation only if it stays well inside the bracket
+      if (2 * p < Math.min(3 * midpoint * q - Math.abs(xTolerance * q), Math.abs(e * q))) {
+        e = d;
+        d = p / q;
+      } else {
+        d = midpoint;
+        e = d;
+      }
+    } else {
+      d = midpoint;
+      e = d;
+    }
+
+    a = b;
+    fa = fb;
+    b += Math.abs(d) > xTolerance ? d : (midpoint > 0 ? xTolerance : -xTolerance);
+    fb = objective(b);
+  }
+
+  return {
+    value: b,
+    status: 'max-iterations',
+    iterations: maxIterations,
+    residual: fb,
+    message: `The ${label} didn't converge within ${maxIterations} iterations.`
+  };
+};
@@ -0,0 +1,6 @@
+-- Add periodic contribution columns to calculations table
+ALTER TABLE calculations
+    ADD COLUMN IF NOT EXISTS contribution DECIMAL NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS contribution_frequency TEXT,
+    ADD COLUMN IF NOT EXISTS contribution_timing TEXT,
+    ADD COLUMN IF NOT EXISTS total_contributions DECIMAL NOT NULL DEFAULT 0;
@@ -0,0 +1,3 @@
+-- Add maturity date column for date-range calculations
+ALTER TABLE calculations
+    ADD COLUMN IF NOT EXISTS end_date TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,4 @@
+-- Add stub period options for terms that don't divide evenly into periods
+ALTER TABLE calculations
+    ADD COLUMN IF NOT EXISTS stub_position TEXT NOT NULL DEFAULT 'back',
+    ADD COLUMN IF NOT EXISTS stub_method TEXT NOT NULL DEFAULT 'compound';
@@ -0,0 +1,3 @@
+-- Store variable rate schedules as an ordered list of { fromYear, rate } changes
+ALTER TABLE calculations
+    ADD COLUMN IF NOT EXISTS rate_schedule JSONB;
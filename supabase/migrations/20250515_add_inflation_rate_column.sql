@@ -0,0 +1,3 @@
+-- Optional annual inflation rate used to report real (inflation-adjusted) values
+ALTER TABLE calculations
+    ADD COLUMN IF NOT EXISTS inflation_rate DECIMAL;
@@ -0,0 +1,5 @@
+-- Tax on interest: rate, when it is withheld, and the total withheld
+ALTER TABLE calculations
+    ADD COLUMN IF NOT EXISTS tax_rate DECIMAL,
+    ADD COLUMN IF NOT EXISTS tax_withholding TEXT DEFAULT 'exempt',
+    ADD COLUMN IF NOT EXISTS total_tax DECIMAL DEFAULT 0;
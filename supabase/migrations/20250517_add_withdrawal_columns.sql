@@ -0,0 +1,7 @@
+-- Scheduled withdrawals for drawdown (retirement) calculations
+ALTER TABLE calculations
+    ADD COLUMN IF NOT EXISTS withdrawal DECIMAL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS withdrawal_type TEXT,
+    ADD COLUMN IF NOT EXISTS withdrawal_frequency TEXT,
+    ADD COLUMN IF NOT EXISTS withdrawal_start_period INTEGER,
+    ADD COLUMN IF NOT EXISTS total_withdrawals DECIMAL DEFAULT 0;
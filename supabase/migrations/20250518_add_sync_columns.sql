@@ -0,0 +1,8 @@
+-- Sync between devices: ids are generated by the client, updated_at decides
+-- which copy wins (last write wins) and deleted rows are kept as tombstones
+-- with deleted_at set so other devices can drop their copies
+ALTER TABLE calculations
+    ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS calculations_deleted_at_idx ON calculations(deleted_at);
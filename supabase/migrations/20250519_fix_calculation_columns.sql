@@ -0,0 +1,12 @@
+-- Match the calculations table to what the app stores: the time unit was
+-- never saved, time can be a fraction of a year or day, and older clients
+-- didn't send a day-count method
+ALTER TABLE calculations
+    ADD COLUMN IF NOT EXISTS time_unit TEXT NOT NULL DEFAULT 'years',
+    ALTER COLUMN time TYPE DECIMAL,
+    ALTER COLUMN day_count_method SET DEFAULT 'actual/365',
+    ALTER COLUMN created_at SET NOT NULL;
+
+ALTER TABLE calculations
+    DROP CONSTRAINT IF EXISTS calculations_time_unit_check,
+    ADD CONSTRAINT calculations_time_unit_check CHECK (time_unit IN ('years', 'days'));
@@ -0,0 +1,33 @@
+-- Per-user history: each calculation belongs to the account that saved it,
+-- and row level security limits every query to the owner's rows.
+--
+-- Rows saved before accounts existed have no owner and are no longer visible.
+-- They were shared by every visitor, so there is no way to tell whose they
+-- are, and letting any account claim them would hand one user everyone's
+-- history. Each visitor's own copies were also kept in their browser, and the
+-- app moves that local history into the account on first sign-in (see
+-- claimAnonymousHistory), where it is synced back up under the new owner.
+ALTER TABLE calculations
+    ADD COLUMN IF NOT EXISTS user_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS calculations_user_id_created_at_idx ON calculations(user_id, created_at DESC);
+
+-- Replace the open policy with owner-only policies
+DROP POLICY IF EXISTS "Allow all operations" ON calculations;
+
+CREATE POLICY "Users can view their own calculations" ON calculations
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add their own calculations" ON calculations
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own calculations" ON calculations
+    FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own calculations" ON calculations
+    FOR DELETE
+    USING (auth.uid() = user_id);